@@ -0,0 +1,200 @@
+import * as mume from "@shd101wyy/mume";
+import * as fs from "fs";
+import * as path from "path";
+import { promisify } from "util";
+import { MarkdownPreviewEnhancedConfig } from "./config";
+import { exportJobManager } from "./export-jobs";
+import { EXPORT_FORMATS, ExportFormat, getExportFormatInfo } from "./exporter";
+import { isMarkdownFile } from "./markdown-detection";
+import { MarkdownPreviewEnhancedView } from "./preview-content-provider";
+import { applyProjectConfig, loadProjectConfig } from "./project-config";
+import { showSelectList } from "./select-list";
+
+const readdir = promisify(fs.readdir);
+const stat = promisify(fs.stat);
+
+/**
+ * Directories that are never searched for markdown files.
+ */
+const IGNORED_DIRECTORY_NAMES = ["node_modules", "bower_components"];
+
+/**
+ * Get the config of the file at `filePath`: `config` overridden by the
+ * settings of its project, see project-config.ts.
+ * @param filePath
+ * @param config
+ */
+async function getFileConfig(
+  filePath: string,
+  config: MarkdownPreviewEnhancedConfig,
+): Promise<MarkdownPreviewEnhancedConfig> {
+  const projectDirectoryPath = MarkdownPreviewEnhancedView.getProjectDirectoryPathForFilePath(
+    filePath,
+  );
+  if (!projectDirectoryPath) {
+    return config;
+  }
+  try {
+    await loadProjectConfig(projectDirectoryPath);
+  } catch (error) {
+    // reported once, the invalid config is cached as empty
+    atom.notifications.addError(error.toString());
+  }
+  return applyProjectConfig(config, projectDirectoryPath);
+}
+
+/**
+ * Recursively find all markdown files under `directoryPath`.
+ * See `isMarkdownFile` for the settings of `config` that decide which files
+ * are markdown. The settings of the project of each file apply.
+ * Hidden directories and `IGNORED_DIRECTORY_NAMES` are skipped.
+ * @param directoryPath
+ * @param config
+ */
+export async function findMarkdownFiles(
+  directoryPath: string,
+  config: MarkdownPreviewEnhancedConfig,
+): Promise<string[]> {
+  const result: string[] = [];
+  const names = (await readdir(directoryPath)).sort();
+  for (let i = 0; i < names.length; i++) {
+    const name = names[i];
+    const filePath = path.resolve(directoryPath, name);
+    const stats = await stat(filePath);
+    if (stats.isDirectory()) {
+      if (!name.startsWith(".") && IGNORED_DIRECTORY_NAMES.indexOf(name) < 0) {
+        result.push(...(await findMarkdownFiles(filePath, config)));
+      }
+    } else if (
+      isMarkdownFile(filePath, await getFileConfig(filePath, config))
+    ) {
+      result.push(filePath);
+    }
+  }
+  return result;
+}
+
+/**
+ * Export every markdown file under `directoryPath` to `format`.
+ * A new markdown engine is created for each file, so no preview is needed.
+ * The settings of the project of each file apply.
+ * @param directoryPath
+ * @param format
+ * @param config
+ */
+export async function exportFolder(
+  directoryPath: string,
+  format: ExportFormat,
+  config: MarkdownPreviewEnhancedConfig,
+) {
+  const filePaths = await findMarkdownFiles(directoryPath, config);
+  if (!filePaths.length) {
+    atom.notifications.addInfo(
+      `No markdown files were found in \`${directoryPath}\``,
+    );
+    return;
+  }
+
+  const formatLabel = getExportFormatInfo(format).label;
+  atom.notifications.addInfo(
+    `Exporting ${filePaths.length} file(s) as ${formatLabel}`,
+  );
+
+  const succeeded: string[] = [];
+  const failed: string[] = [];
+  for (let i = 0; i < filePaths.length; i++) {
+    const filePath = filePaths[i];
+    const relativePath = path.relative(directoryPath, filePath);
+    try {
+      const dest = await exportJobManager.run(
+        filePath,
+        format,
+        async () =>
+          new mume.MarkdownEngine({
+            filePath,
+            projectDirectoryPath: MarkdownPreviewEnhancedView.getProjectDirectoryPathForFilePath(
+              filePath,
+            ),
+            config: await getFileConfig(filePath, config),
+          }),
+        { notify: false },
+      );
+      succeeded.push(`- \`${relativePath}\` → \`${dest}\``);
+    } catch (error) {
+      failed.push(`- \`${relativePath}\`: ${error.toString()}`);
+    }
+  }
+
+  let detail = "";
+  if (succeeded.length) {
+    detail += `Succeeded:\n${succeeded.join("\n")}\n`;
+  }
+  if (failed.length) {
+    detail += `Failed:\n${failed.join("\n")}\n`;
+  }
+  const message = `Exported ${succeeded.length} of ${filePaths.length} file(s) in \`${directoryPath}\``;
+  if (failed.length) {
+    atom.notifications.addWarning(message, { detail, dismissable: true });
+  } else {
+    atom.notifications.addSuccess(message, { detail, dismissable: true });
+  }
+}
+
+/**
+ * Get the directory that is selected in the tree-view.
+ * If a file is selected, then its parent directory is returned.
+ * @param target The element that the command was dispatched to.
+ */
+function getTreeViewSelectedDirectory(target: HTMLElement): string {
+  let entry = target && target.closest ? target.closest(".entry") : null;
+  if (!entry) {
+    entry = document.querySelector(".tree-view .entry.selected");
+  }
+  if (!entry) {
+    return null;
+  }
+  const nameElement = entry.querySelector("[data-path]") as HTMLElement;
+  if (!nameElement) {
+    return null;
+  }
+  const selectedPath = nameElement.dataset.path;
+  if (entry.classList.contains("directory")) {
+    return selectedPath;
+  } else {
+    return path.dirname(selectedPath);
+  }
+}
+
+/**
+ * `markdown-preview-enhanced:export-folder` command.
+ * Ask for an export format, then export all markdown files in the
+ * directory that is selected in the tree-view.
+ * @param event
+ * @param config
+ */
+export async function exportFolderCommand(
+  event: Event,
+  config: MarkdownPreviewEnhancedConfig,
+) {
+  const directoryPath = getTreeViewSelectedDirectory(
+    event.target as HTMLElement,
+  );
+  if (!directoryPath) {
+    atom.notifications.addError("Please select a folder in the tree view.");
+    return;
+  }
+
+  const format = await showSelectList(
+    EXPORT_FORMATS.map(({ format: value, label }) => ({ label, value })),
+    `Export markdown files in ${path.basename(directoryPath)} as...`,
+  );
+  if (!format) {
+    return;
+  }
+
+  try {
+    await exportFolder(directoryPath, format, config);
+  } catch (error) {
+    atom.notifications.addError(error.toString());
+  }
+}
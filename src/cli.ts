@@ -0,0 +1,211 @@
+#!/usr/bin/env node
+/**
+ * Command-line exporter.
+ * Exports markdown files through mume without atom, with the same settings
+ * as the package.
+ */
+import * as mume from "@shd101wyy/mume";
+import * as path from "path";
+import {
+  describeSettingProblem,
+  isConfigSetting,
+  MarkdownPreviewEnhancedConfig,
+} from "./config";
+import { readConfigFile } from "./config-file";
+import {
+  EXPORT_FORMATS,
+  exportFile,
+  ExportFormat,
+  getExportFormatInfo,
+} from "./exporter";
+import { applyProjectConfig, loadProjectConfig } from "./project-config";
+
+/**
+ * Some files failed to export.
+ */
+const EXIT_EXPORT_FAILED = 1;
+/**
+ * Invalid arguments or settings, nothing was exported.
+ */
+const EXIT_INVALID_USAGE = 2;
+
+const USAGE = `Usage: mpe-export [options] <file.md>...
+
+Export markdown files with the settings of Markdown Preview Enhanced.
+
+Options:
+  -f, --format <format>   Export format (default: html), one of:
+${EXPORT_FORMATS.map(
+  ({ format, label }) => `                            ${format}: ${label}`,
+).join("\n")}
+  -c, --config <file>     Settings file, .json or .cson. Either a
+                          {"name": value} object or atom's config.cson.
+  -p, --project <dir>     Project directory, whose .mpe.json settings are
+                          applied (default: the current directory)
+  -s, --set <name=value>  Override a setting. The value is parsed as JSON if
+                          possible, e.g. --set printBackground=true
+  -h, --help              Show this help
+`;
+
+interface CLIOptions {
+  format: ExportFormat;
+  configFilePath: string;
+  projectDirectoryPath: string;
+  /**
+   * Settings from `--set`.
+   */
+  settings: { [key: string]: any };
+  filePaths: string[];
+  help: boolean;
+}
+
+/**
+ * Parse the value of `--set name=value`.
+ * @param argument
+ */
+function parseSetArgument(argument: string): [string, any] {
+  const index = argument.indexOf("=");
+  if (index <= 0) {
+    throw new Error(`Expected name=value, got \`${argument}\``);
+  }
+  const name = argument.slice(0, index);
+  if (!isConfigSetting(name)) {
+    throw new Error(`Unknown setting \`${name}\``);
+  }
+  const rawValue = argument.slice(index + 1);
+  try {
+    return [name, JSON.parse(rawValue)];
+  } catch (error) {
+    return [name, rawValue];
+  }
+}
+
+/**
+ * Parse the command-line arguments.
+ * Throws if they are not valid.
+ * @param args
+ */
+export function parseArguments(args: string[]): CLIOptions {
+  const options: CLIOptions = {
+    format: "html",
+    configFilePath: "",
+    projectDirectoryPath: process.cwd(),
+    settings: {},
+    filePaths: [],
+    help: false,
+  };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const getValue = () => {
+      if (i + 1 >= args.length) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      return args[++i];
+    };
+
+    if (arg === "-h" || arg === "--help") {
+      options.help = true;
+    } else if (arg === "-f" || arg === "--format") {
+      const format = getValue();
+      if (!getExportFormatInfo(format)) {
+        throw new Error(`Unknown export format \`${format}\``);
+      }
+      options.format = format as ExportFormat;
+    } else if (arg === "-c" || arg === "--config") {
+      options.configFilePath = path.resolve(getValue());
+    } else if (arg === "-p" || arg === "--project") {
+      options.projectDirectoryPath = path.resolve(getValue());
+    } else if (arg === "-s" || arg === "--set") {
+      const [name, value] = parseSetArgument(getValue());
+      options.settings[name] = value;
+    } else if (arg.startsWith("-")) {
+      throw new Error(`Unknown option ${arg}`);
+    } else {
+      options.filePaths.push(path.resolve(arg));
+    }
+  }
+  if (!options.help && !options.filePaths.length) {
+    throw new Error("No markdown file given");
+  }
+  return options;
+}
+
+/**
+ * Create the config from the settings file, the `--set` overrides and the
+ * project config file.
+ * @param options
+ */
+async function loadConfig(
+  options: CLIOptions,
+): Promise<MarkdownPreviewEnhancedConfig> {
+  const settings = Object.assign(
+    options.configFilePath ? await readConfigFile(options.configFilePath) : {},
+    options.settings,
+  );
+  await loadProjectConfig(options.projectDirectoryPath);
+  return applyProjectConfig(
+    new MarkdownPreviewEnhancedConfig((name) => settings[name]),
+    options.projectDirectoryPath,
+  );
+}
+
+/**
+ * Run the exporter.
+ * Resolves with the exit code.
+ * @param args The command-line arguments, without node and the script path
+ */
+export async function main(args: string[]): Promise<number> {
+  let options: CLIOptions;
+  let config: MarkdownPreviewEnhancedConfig;
+  try {
+    options = parseArguments(args);
+    if (options.help) {
+      process.stdout.write(USAGE);
+      return 0;
+    }
+    config = await loadConfig(options);
+  } catch (error) {
+    process.stderr.write(`${error.message}\n\n${USAGE}`);
+    return EXIT_INVALID_USAGE;
+  }
+
+  const problems = config.getProblems();
+  for (let i = 0; i < problems.length; i++) {
+    process.stderr.write(`Warning: ${describeSettingProblem(problems[i])}\n`);
+  }
+
+  await mume.init();
+
+  let failedCount = 0;
+  for (let i = 0; i < options.filePaths.length; i++) {
+    const filePath = options.filePaths[i];
+    try {
+      const engine = new mume.MarkdownEngine({
+        filePath,
+        projectDirectoryPath: options.projectDirectoryPath,
+        config,
+      });
+      const dest = await exportFile(engine, options.format, {
+        openFileAfterGeneration: false,
+      });
+      process.stdout.write(`${filePath} -> ${dest}\n`);
+    } catch (error) {
+      failedCount++;
+      process.stderr.write(`Failed to export ${filePath}: ${error}\n`);
+    }
+  }
+  return failedCount ? EXIT_EXPORT_FAILED : 0;
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(
+    (code) => {
+      // exporters such as puppeteer may keep the process alive
+      process.exit(code);
+    },
+    (error) => {
+      process.stderr.write(`${error}\n`);
+      process.exit(EXIT_EXPORT_FAILED);
+    },
+  );
+}
@@ -0,0 +1,59 @@
+import * as fs from "fs";
+import * as path from "path";
+import { promisify } from "util";
+import { isConfigSetting } from "./config";
+import { configSchema } from "./config-schema";
+
+// tslint:disable-next-line:no-var-requires
+const CSON = require("cson-parser");
+
+const readFile = promisify(fs.readFile);
+
+/**
+ * Get the settings of this package from the content of a settings file.
+ * Both a plain `{name: value}` object and the layout of atom's
+ * `config.cson` (`{"*": {"markdown-preview-enhanced": {...}}}`) are accepted.
+ * @param content
+ */
+function getPackageSettings(content: any): { [key: string]: any } {
+  if (!content || typeof content !== "object" || Array.isArray(content)) {
+    throw new Error("expected an object");
+  }
+  if (content["*"]) {
+    content = content["*"];
+  }
+  return content["markdown-preview-enhanced"] || content;
+}
+
+/**
+ * Read the user settings from a JSON or CSON file, the format being picked
+ * by the file extension.
+ * Settings of the package schema that the markdown engine doesn't use,
+ * such as `enableZenMode` in atom's `config.cson`, are left out.
+ * Throws if the file can't be parsed or has unknown settings.
+ * @param filePath
+ */
+export async function readConfigFile(
+  filePath: string,
+): Promise<{ [key: string]: any }> {
+  const text = await readFile(filePath, { encoding: "utf-8" });
+  let settings: { [key: string]: any };
+  try {
+    settings = getPackageSettings(
+      path.extname(filePath) === ".cson" ? CSON.parse(text) : JSON.parse(text),
+    );
+  } catch (error) {
+    throw new Error(`Failed to parse \`${filePath}\`: ${error.message}`);
+  }
+  const configSettings: { [key: string]: any } = {};
+  for (const name in settings) {
+    if (!settings.hasOwnProperty(name)) {
+      continue;
+    } else if (isConfigSetting(name)) {
+      configSettings[name] = settings[name];
+    } else if (!configSchema.hasOwnProperty(name)) {
+      throw new Error(`Unknown setting \`${name}\` in \`${filePath}\``);
+    }
+  }
+  return configSettings;
+}
@@ -0,0 +1,102 @@
+import { TextEditor } from "atom";
+import {
+  describeSettingProblem,
+  getConfigSettingNames,
+  MarkdownPreviewEnhancedConfig,
+  SettingProblem,
+} from "./config";
+import { getProjectConfigFilePath } from "./project-config";
+
+/**
+ * Problems that were already shown to the user.
+ * Key is `${source}:${name}:${rawValue}`.
+ */
+const REPORTED_PROBLEMS: { [key: string]: boolean } = {};
+
+/**
+ * Show a warning for each setting problem of `config` that wasn't
+ * reported yet.
+ * @param config
+ */
+export function reportConfigProblems(config: MarkdownPreviewEnhancedConfig) {
+  const problems = config.getProblems();
+  for (let i = 0; i < problems.length; i++) {
+    const problem = problems[i];
+    const key = `${problem.source}:${problem.name}:${JSON.stringify(
+      problem.rawValue,
+    )}`;
+    if (!REPORTED_PROBLEMS[key]) {
+      REPORTED_PROBLEMS[key] = true;
+      atom.notifications.addWarning(describeSettingProblem(problem), {
+        dismissable: true,
+      });
+    }
+  }
+}
+
+/**
+ * Escape `text` so that it can be put in a markdown table cell.
+ * @param text
+ */
+function escapeTableCell(text: string) {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+/**
+ * Generate the markdown report of the effective configuration.
+ * @param config The effective config
+ * @param projectDirectoryPath The project that `config` was resolved for
+ */
+export function generateConfigReport(
+  config: MarkdownPreviewEnhancedConfig,
+  projectDirectoryPath: string,
+): string {
+  const sourceLabels = {
+    default: "default",
+    user: "user settings",
+    project: projectDirectoryPath
+      ? `project (\`${getProjectConfigFilePath(projectDirectoryPath)}\`)`
+      : "project",
+  };
+
+  let report = "# Markdown Preview Enhanced configuration\n\n";
+  if (projectDirectoryPath) {
+    report += `Project: \`${projectDirectoryPath}\`\n\n`;
+  }
+
+  const problems: SettingProblem[] = config.getProblems();
+  if (problems.length) {
+    report += "## Problems\n\n";
+    for (let i = 0; i < problems.length; i++) {
+      report += `- ${describeSettingProblem(problems[i])}\n`;
+    }
+    report += "\n";
+  }
+
+  report += "## Settings\n\n| Setting | Value | Source |\n|---|---|---|\n";
+  const names = getConfigSettingNames().sort();
+  for (let i = 0; i < names.length; i++) {
+    const name = names[i];
+    report += `| \`${name}\` | \`${escapeTableCell(
+      JSON.stringify(config[name]),
+    )}\` | ${sourceLabels[config.sources[name]]}${
+      config.problems[name] ? " (invalid value ignored)" : ""
+    } |\n`;
+  }
+  return report;
+}
+
+/**
+ * Open the report of the effective configuration in a new editor.
+ * @param config The effective config
+ * @param projectDirectoryPath The project that `config` was resolved for
+ */
+export async function showConfigReport(
+  config: MarkdownPreviewEnhancedConfig,
+  projectDirectoryPath: string,
+) {
+  const editor = (await atom.workspace.open()) as TextEditor;
+  editor.setText(generateConfigReport(config, projectDirectoryPath));
+  editor.setCursorBufferPosition([0, 0]);
+  atom.textEditors.setGrammarOverride(editor, "source.gfm");
+}
@@ -5,6 +5,30 @@ export const configSchema = {
     description: "You may need restart Atom after making changes here.",
     order: 0,
   },
+  markdownGrammarScopes: {
+    title: "Markdown Grammars",
+    description:
+      "Comma separated scope names of the markdown grammars. Editors that use one of them are previewed whatever their file extension, such as untitled buffers or files set to a markdown grammar manually.",
+    type: "string",
+    default: "source.gfm, text.md, text.html.markdown",
+    order: 1,
+  },
+  markdownFileIncludes: {
+    title: "Other Markdown Files",
+    description:
+      "Comma separated glob patterns of other files that are markdown files, e.g. `README, *.mdx, *.rmd`. Patterns without a `/` match the file name, the others match the path relative to the project.",
+    type: "string",
+    default: "",
+    order: 2,
+  },
+  markdownFileExcludes: {
+    title: "Excluded Files",
+    description:
+      "Comma separated glob patterns of files that are never markdown files, even with a markdown extension or grammar, e.g. `node_modules/**, CHANGELOG.md`.",
+    type: "string",
+    default: "",
+    order: 3,
+  },
   singlePreview: {
     title: "Open Only One Preview",
     type: "boolean",
@@ -451,4 +475,44 @@ Front matter is hidden by default, but you can choose between \`table\` (like [o
     default: true,
     order: 101,
   },
+
+  previewServerPort: {
+    title: "Preview Server Port",
+    description:
+      "Port of the live preview server started by `Markdown Preview Enhanced: Start Preview Server`. Use 0 for a random free port.",
+    type: "integer",
+    default: 3680,
+    minimum: 0,
+    maximum: 65535,
+    order: 110,
+  },
+
+  previewServerHost: {
+    title: "Preview Server Host",
+    description:
+      "Host that the live preview server listens on. Use `0.0.0.0` to follow the preview from other devices on your network, which also lets them read the files of the project.",
+    type: "string",
+    default: "localhost",
+    order: 111,
+  },
+
+  largeDocumentLineCount: {
+    title: "Large Document Line Count",
+    description:
+      "Documents with more lines are rendered in large-document mode: the sections visible in the editor are rendered first, and diagrams and math blocks are only rendered once they are scrolled into view in the preview. Use 0 to disable it.",
+    type: "integer",
+    default: 5000,
+    minimum: 0,
+    order: 120,
+  },
+
+  markdownEngineCacheSize: {
+    title: "Markdown Engine Cache Size",
+    description:
+      "Maximum number of markdown engines, with their caches, kept for files that were previewed. The least recently used ones are released first, and the ones of files that are previewed are kept.",
+    type: "integer",
+    default: 10,
+    minimum: 1,
+    order: 121,
+  },
 };
@@ -1,76 +1,336 @@
 import { MarkdownEngineConfig } from "@shd101wyy/mume";
 import { MathRenderingOption } from "@shd101wyy/mume/out/src/markdown-engine-config";
 import { CompositeDisposable } from "atom";
+import { configSchema } from "./config-schema";
 
-const copyValue = (v) => v;
-const parseJsonOrDefault = (def: any) => (raw: any) => {
-  try {
-    return JSON.parse(raw);
-  } catch (error) {
-    return def;
+/**
+ * Convert the raw value of setting `name` to the value used by mpe and mume.
+ * Throws an error that says what was expected if the raw value is not valid.
+ */
+type SettingParser = (raw: any, name: string) => any;
+
+const parseBoolean: SettingParser = (raw) => {
+  if (typeof raw !== "boolean") {
+    throw new Error("expected true or false");
+  }
+  return raw;
+};
+
+const parseString: SettingParser = (raw) => {
+  if (typeof raw !== "string") {
+    throw new Error("expected a string");
+  }
+  return raw;
+};
+
+const parseEnum: SettingParser = (raw, name) => {
+  const values: string[] = configSchema[name].enum;
+  if (values.indexOf(raw) < 0) {
+    throw new Error(`expected one of ${values.join(", ")}`);
+  }
+  return raw;
+};
+
+const parseNonNegativeInteger: SettingParser = (raw) => {
+  const value = typeof raw === "string" && raw.trim() ? Number(raw) : raw;
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new Error("expected a non-negative integer");
+  }
+  return value;
+};
+
+const parsePositiveInteger: SettingParser = (raw, name) => {
+  const value = parseNonNegativeInteger(raw, name);
+  if (value === 0) {
+    throw new Error("expected a positive integer");
+  }
+  return value;
+};
+
+const parsePort: SettingParser = (raw, name) => {
+  const value = parseNonNegativeInteger(raw, name);
+  if (value > 65535) {
+    throw new Error("expected a port number between 0 and 65535");
+  }
+  return value;
+};
+
+const parseDelimiters: SettingParser = (raw) => {
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch (error) {
+      throw new Error(`invalid JSON (${error.message})`);
+    }
+  }
+  const isDelimiterPair = (pair) =>
+    Array.isArray(pair) &&
+    pair.length === 2 &&
+    pair.every((delimiter) => typeof delimiter === "string" && delimiter);
+  if (!Array.isArray(value) || !value.every(isDelimiterPair)) {
+    throw new Error(
+      'expected a list of [opening, closing] pairs, e.g. [["$", "$"]]',
+    );
   }
+  return value;
 };
 
-const parseListOrDefault = (def: any) => (raw: any) => {
-  return (
-    raw
+/**
+ * Parse a comma separated list.
+ * An array of strings is accepted as well.
+ * @param allowEmpty
+ */
+const parseList = (allowEmpty: boolean): SettingParser => (raw) => {
+  let value = raw;
+  if (typeof raw === "string") {
+    value = raw
       .split(",")
       .map((x) => x.trim())
-      .filter((x) => x.length) || def
-  );
+      .filter((x) => x.length);
+  }
+  if (!Array.isArray(value) || !value.every((x) => typeof x === "string")) {
+    throw new Error("expected a comma separated list");
+  }
+  if (!allowEmpty && !value.length) {
+    throw new Error("expected at least one item");
+  }
+  return value;
 };
 
-const ConfigSettings: { [key: string]: (val: any) => any } = {
-  usePandocParser: copyValue,
-  breakOnSingleNewLine: copyValue,
-  enableTypographer: copyValue,
-  enableLinkify: copyValue,
-  enableWikiLinkSyntax: copyValue,
-  enableEmojiSyntax: copyValue,
-  enableExtendedTableSyntax: copyValue,
-  enableCriticMarkupSyntax: copyValue,
-  wikiLinkFileExtension: copyValue,
-  protocolsWhiteList: copyValue,
-  mathRenderingOption: copyValue,
-  mathRenderingOnlineService: copyValue,
-  codeBlockTheme: copyValue,
-  previewTheme: copyValue,
-  revealjsTheme: copyValue,
-  mermaidTheme: copyValue,
-  frontMatterRenderingOption: copyValue,
-  imageFolderPath: copyValue,
-  printBackground: copyValue,
-  chromePath: copyValue,
-  imageMagickPath: copyValue,
-  pandocPath: copyValue,
-  pandocMarkdownFlavor: copyValue,
-  enableHTML5Embed: copyValue,
-  HTML5EmbedUseImageSyntax: copyValue,
-  HTML5EmbedUseLinkSyntax: copyValue,
-  HTML5EmbedIsAllowedHttp: copyValue,
-  HTML5EmbedAudioAttributes: copyValue,
-  HTML5EmbedVideoAttributes: copyValue,
-  puppeteerWaitForTimeout: (v) => {
-    return parseInt(v, 10) || 0;
-  },
-  usePuppeteerCore: copyValue,
-
-  scrollSync: copyValue,
-  liveUpdate: copyValue,
-  previewPanePosition: copyValue,
-  openPreviewPaneAutomatically: copyValue,
-  automaticallyShowPreviewOfMarkdownBeingEdited: copyValue,
-  closePreviewAutomatically: copyValue,
-  imageUploader: copyValue,
-  latexEngine: copyValue,
-  enableScriptExecution: copyValue,
-  singlePreview: copyValue,
-  mathInlineDelimiters: parseJsonOrDefault([["$", "$"], ["\\(", "\\)"]]),
-  mathBlockDelimiters: parseJsonOrDefault([["$$", "$$"], ["\\[", "\\]"]]),
-  pandocArguments: parseListOrDefault([]),
-  fileExtension: parseListOrDefault([".md", ".mmark", ".markdown"]),
+const parseFileExtensions: SettingParser = (raw, name) => {
+  const value: string[] = parseList(false)(raw, name);
+  for (let i = 0; i < value.length; i++) {
+    if (!value[i].startsWith(".")) {
+      throw new Error(
+        `expected extensions starting with a dot, got "${value[i]}"`,
+      );
+    }
+  }
+  return value;
 };
 
+const ConfigSettings = {
+  usePandocParser: parseBoolean,
+  breakOnSingleNewLine: parseBoolean,
+  enableTypographer: parseBoolean,
+  enableLinkify: parseBoolean,
+  enableWikiLinkSyntax: parseBoolean,
+  enableEmojiSyntax: parseBoolean,
+  enableExtendedTableSyntax: parseBoolean,
+  enableCriticMarkupSyntax: parseBoolean,
+  wikiLinkFileExtension: parseString,
+  protocolsWhiteList: parseString,
+  mathRenderingOption: parseEnum,
+  mathRenderingOnlineService: parseEnum,
+  codeBlockTheme: parseEnum,
+  previewTheme: parseEnum,
+  revealjsTheme: parseEnum,
+  mermaidTheme: parseEnum,
+  frontMatterRenderingOption: parseEnum,
+  imageFolderPath: parseString,
+  printBackground: parseBoolean,
+  chromePath: parseString,
+  imageMagickPath: parseString,
+  pandocPath: parseString,
+  pandocMarkdownFlavor: parseString,
+  enableHTML5Embed: parseBoolean,
+  HTML5EmbedUseImageSyntax: parseBoolean,
+  HTML5EmbedUseLinkSyntax: parseBoolean,
+  HTML5EmbedIsAllowedHttp: parseBoolean,
+  HTML5EmbedAudioAttributes: parseString,
+  HTML5EmbedVideoAttributes: parseString,
+  puppeteerWaitForTimeout: parseNonNegativeInteger,
+  usePuppeteerCore: parseBoolean,
+
+  scrollSync: parseBoolean,
+  liveUpdate: parseBoolean,
+  previewPanePosition: parseEnum,
+  openPreviewPaneAutomatically: parseBoolean,
+  automaticallyShowPreviewOfMarkdownBeingEdited: parseBoolean,
+  closePreviewAutomatically: parseBoolean,
+  imageUploader: parseEnum,
+  latexEngine: parseString,
+  enableScriptExecution: parseBoolean,
+  singlePreview: parseBoolean,
+  mathInlineDelimiters: parseDelimiters,
+  mathBlockDelimiters: parseDelimiters,
+  pandocArguments: parseList(true),
+  fileExtension: parseFileExtensions,
+  markdownGrammarScopes: parseList(true),
+  markdownFileIncludes: parseList(true),
+  markdownFileExcludes: parseList(true),
+  previewServerPort: parsePort,
+  previewServerHost: parseString,
+  largeDocumentLineCount: parseNonNegativeInteger,
+  markdownEngineCacheSize: parsePositiveInteger,
+};
+
+/**
+ * What a preview does when a setting changes, from the least work to the
+ * most:
+ * - `host`: nothing, the package reads the setting when it needs it;
+ * - `engine`: the markdown engine is updated, for the exports;
+ * - `render`: the engine is updated and the preview rendered again;
+ * - `reload`: the engine is updated and the webview reloaded, as the
+ *   setting is used by the preview html template.
+ */
+export type SettingEffect = "host" | "engine" | "render" | "reload";
+
+const SETTING_EFFECT_ORDER: SettingEffect[] = [
+  "host",
+  "engine",
+  "render",
+  "reload",
+];
+
+/**
+ * Every setting of `ConfigSettings` must be listed, so that a new setting
+ * doesn't fall back to a reload by mistake.
+ */
+const SettingEffects: {
+  [key in keyof typeof ConfigSettings]: SettingEffect;
+} = {
+  usePandocParser: "render",
+  breakOnSingleNewLine: "render",
+  enableTypographer: "render",
+  enableLinkify: "render",
+  enableWikiLinkSyntax: "render",
+  enableEmojiSyntax: "render",
+  enableExtendedTableSyntax: "render",
+  enableCriticMarkupSyntax: "render",
+  wikiLinkFileExtension: "render",
+  protocolsWhiteList: "render",
+  mathRenderingOption: "reload",
+  mathRenderingOnlineService: "engine",
+  codeBlockTheme: "reload",
+  previewTheme: "reload",
+  revealjsTheme: "reload",
+  mermaidTheme: "reload",
+  frontMatterRenderingOption: "render",
+  imageFolderPath: "engine",
+  printBackground: "engine",
+  chromePath: "engine",
+  imageMagickPath: "engine",
+  pandocPath: "render",
+  pandocMarkdownFlavor: "render",
+  enableHTML5Embed: "render",
+  HTML5EmbedUseImageSyntax: "render",
+  HTML5EmbedUseLinkSyntax: "render",
+  HTML5EmbedIsAllowedHttp: "render",
+  HTML5EmbedAudioAttributes: "render",
+  HTML5EmbedVideoAttributes: "render",
+  puppeteerWaitForTimeout: "engine",
+  usePuppeteerCore: "engine",
+
+  scrollSync: "host",
+  liveUpdate: "host",
+  previewPanePosition: "host",
+  openPreviewPaneAutomatically: "host",
+  automaticallyShowPreviewOfMarkdownBeingEdited: "host",
+  closePreviewAutomatically: "host",
+  imageUploader: "host",
+  latexEngine: "render",
+  enableScriptExecution: "engine",
+  singlePreview: "host",
+  mathInlineDelimiters: "render",
+  mathBlockDelimiters: "render",
+  pandocArguments: "render",
+  fileExtension: "host",
+  markdownGrammarScopes: "host",
+  markdownFileIncludes: "host",
+  markdownFileExcludes: "host",
+  previewServerPort: "host",
+  previewServerHost: "host",
+  largeDocumentLineCount: "render",
+  markdownEngineCacheSize: "host",
+};
+
+/**
+ * Get what a preview does when the settings `names` change, see
+ * `SettingEffect`. Returns `null` if `names` is empty.
+ * @param names
+ */
+export function getSettingsEffect(names: string[]): SettingEffect {
+  let index = -1;
+  for (let i = 0; i < names.length; i++) {
+    const effect = SettingEffects[names[i]] || "reload";
+    index = Math.max(index, SETTING_EFFECT_ORDER.indexOf(effect));
+  }
+  return index >= 0 ? SETTING_EFFECT_ORDER[index] : null;
+}
+
+/**
+ * Get the names of the settings whose values differ between two configs.
+ * @param config
+ * @param otherConfig
+ */
+export function getChangedSettings(
+  config: MarkdownPreviewEnhancedConfig,
+  otherConfig: MarkdownPreviewEnhancedConfig,
+): string[] {
+  return getConfigSettingNames().filter(
+    (name) =>
+      JSON.stringify(config[name]) !== JSON.stringify(otherConfig[name]),
+  );
+}
+
+/**
+ * Where the value of a setting comes from.
+ */
+export type SettingSource = "default" | "user" | "project";
+
+/**
+ * An invalid setting value that was ignored.
+ */
+export interface SettingProblem {
+  name: string;
+  source: SettingSource;
+  rawValue: any;
+  /**
+   * The value that is used instead.
+   */
+  value: any;
+  message: string;
+}
+
+/**
+ * Get the default value of setting `name` from `configSchema`.
+ * @param name
+ */
+function getDefaultValue(name: string) {
+  return ConfigSettings[name](configSchema[name].default, name);
+}
+
+/**
+ * Get the names of all settings that MarkdownPreviewEnhancedConfig manages.
+ */
+export function getConfigSettingNames(): string[] {
+  return Object.keys(ConfigSettings);
+}
+
+/**
+ * Describe `problem` for users.
+ * @param problem
+ */
+export function describeSettingProblem(problem: SettingProblem): string {
+  const where =
+    problem.source === "project" ? "the project config file" : "your settings";
+  return `Invalid value \`${JSON.stringify(problem.rawValue)}\` for \`${
+    problem.name
+  }\` in ${where}: ${problem.message}. Using \`${JSON.stringify(
+    problem.value,
+  )}\` instead.`;
+}
+
+/**
+ * Check if `name` is a setting that MarkdownPreviewEnhancedConfig manages.
+ * @param name
+ */
+export function isConfigSetting(name: string): boolean {
+  return ConfigSettings.hasOwnProperty(name);
+}
+
 export class MarkdownPreviewEnhancedConfig implements MarkdownEngineConfig {
   public static getCurrentConfig() {
     return new MarkdownPreviewEnhancedConfig();
@@ -121,6 +381,9 @@ export class MarkdownPreviewEnhancedConfig implements MarkdownEngineConfig {
    */
 
   public fileExtension: string[];
+  public markdownGrammarScopes: string[];
+  public markdownFileIncludes: string[];
+  public markdownFileExcludes: string[];
   public singlePreview: boolean;
   public scrollSync: boolean;
   public liveUpdate: boolean;
@@ -131,31 +394,156 @@ export class MarkdownPreviewEnhancedConfig implements MarkdownEngineConfig {
   // public enableZenMode: boolean
   public imageUploader: string;
   public imageDropAction: string;
+  public previewServerPort: number;
+  public previewServerHost: string;
+  public largeDocumentLineCount: number;
+  public markdownEngineCacheSize: number;
+
+  /**
+   * Key is setting name
+   * Value is where the current value comes from
+   */
+  public sources: { [key: string]: SettingSource } = {};
+
+  /**
+   * Key is setting name
+   * Value is the problem of the invalid value that was ignored
+   */
+  public problems: { [key: string]: SettingProblem } = {};
 
-  public constructor() {
+  /**
+   * @param getRawValue Get the raw value of setting `name` from the user
+   * settings, or `undefined` if it is not set. Reads `atom.config` by default,
+   * other sources such as a settings file make the config usable without atom.
+   */
+  public constructor(
+    getRawValue: (name: string) => any = (name) =>
+      atom.config.get(`markdown-preview-enhanced.${name}`),
+  ) {
     for (const name in ConfigSettings) {
       if (ConfigSettings.hasOwnProperty(name)) {
-        const transform = ConfigSettings[name];
-        const rawValue = atom.config.get(`markdown-preview-enhanced.${name}`);
-        this[name] = transform(rawValue);
+        this.setUserSetting(name, getRawValue(name));
       }
     }
   }
 
-  public onDidChange(subscriptions: CompositeDisposable, callback) {
-    for (const name in ConfigSettings) {
-      if (ConfigSettings.hasOwnProperty(name)) {
-        const transform = ConfigSettings[name];
-        const subscription = atom.config.onDidChange(
-          `markdown-preview-enhanced.${name}`,
-          ({ newValue }) => {
-            this[name] = transform(newValue);
-            callback();
-          },
-        );
-        subscriptions.add(subscription);
+  /**
+   * Set setting `name` from the raw value of the user settings.
+   * Falls back to the default value if `rawValue` is not valid.
+   * @param name
+   * @param rawValue
+   */
+  private setUserSetting(name: string, rawValue: any) {
+    if (rawValue === undefined) {
+      rawValue = configSchema[name].default;
+    }
+    const isDefault =
+      JSON.stringify(rawValue) === JSON.stringify(configSchema[name].default);
+    this.sources[name] = isDefault ? "default" : "user";
+    this.setSetting(name, rawValue, this.sources[name], getDefaultValue(name));
+    if (this.problems[name]) {
+      this.sources[name] = "default";
+    }
+  }
+
+  /**
+   * Set setting `name` to the parsed `rawValue`.
+   * If `rawValue` is not valid, `fallbackValue` is used and the problem
+   * is recorded in `this.problems`.
+   * @param name
+   * @param rawValue
+   * @param source
+   * @param fallbackValue
+   */
+  private setSetting(
+    name: string,
+    rawValue: any,
+    source: SettingSource,
+    fallbackValue: any,
+  ) {
+    delete this.problems[name];
+    try {
+      this[name] = ConfigSettings[name](rawValue, name);
+      this.sources[name] = source;
+    } catch (error) {
+      this[name] = fallbackValue;
+      this.problems[name] = {
+        name,
+        source,
+        rawValue,
+        value: fallbackValue,
+        message: error.message,
+      };
+    }
+  }
+
+  /**
+   * Get all the problems of the current settings.
+   */
+  public getProblems(): SettingProblem[] {
+    return Object.keys(this.problems).map((name) => this.problems[name]);
+  }
+
+  /**
+   * Create a copy of this config with the settings in `overrides` replaced.
+   * Values are validated the same way as the user settings;
+   * invalid ones keep the value of this config.
+   * @param overrides
+   */
+  public withOverrides(overrides: { [key: string]: any }) {
+    const config: MarkdownPreviewEnhancedConfig = Object.assign(
+      Object.create(MarkdownPreviewEnhancedConfig.prototype),
+      this,
+    );
+    config.sources = Object.assign({}, this.sources);
+    config.problems = Object.assign({}, this.problems);
+    for (const name in overrides) {
+      if (overrides.hasOwnProperty(name) && isConfigSetting(name)) {
+        config.setSetting(name, overrides[name], "project", this[name]);
       }
     }
+    return config;
+  }
+
+  /**
+   * Watch `atom.config`, for configs created with the default `getRawValue`.
+   * The changes made at once, such as when `config.cson` is edited, are
+   * batched into one call of `callback` with the names of the settings whose
+   * value or problem changed.
+   * @param subscriptions
+   * @param callback
+   */
+  public onDidChange(
+    subscriptions: CompositeDisposable,
+    callback: (changedNames: string[]) => void,
+  ) {
+    let changedNames: string[] = [];
+    let timeout = null;
+    subscriptions.add(
+      atom.config.onDidChange("markdown-preview-enhanced", ({ newValue }) => {
+        for (const name in ConfigSettings) {
+          if (ConfigSettings.hasOwnProperty(name)) {
+            const previous = JSON.stringify([this[name], this.problems[name]]);
+            this.setUserSetting(name, newValue ? newValue[name] : undefined);
+            if (
+              JSON.stringify([this[name], this.problems[name]]) !== previous &&
+              changedNames.indexOf(name) < 0
+            ) {
+              changedNames.push(name);
+            }
+          }
+        }
+        if (changedNames.length && !timeout) {
+          timeout = setTimeout(() => {
+            const names = changedNames;
+            changedNames = [];
+            timeout = null;
+            callback(names);
+          }, 0);
+        }
+      }),
+    );
+    subscriptions.add({ dispose: () => clearTimeout(timeout) });
   }
 
   [key: string]: any;
@@ -0,0 +1,89 @@
+import * as mume from "@shd101wyy/mume";
+
+export interface EngineCacheOptions {
+  /**
+   * Whether a preview shows the file.
+   * The engines of such files are never evicted.
+   */
+  isBound: (filePath: string) => boolean;
+  /**
+   * Whether an editor of the file is open.
+   */
+  isOpen: (filePath: string) => boolean;
+}
+
+/**
+ * The markdown engines of the previewed files, so that a file gets the same
+ * engine, with its caches, each time it is previewed.
+ * The least recently used engines are evicted above the cache size, and the
+ * engines of files that are neither previewed nor open are released.
+ * Engines have nothing to dispose, evicting one drops it with its caches.
+ */
+export class EngineCache {
+  private options: EngineCacheOptions;
+  /**
+   * Key is the source uri of the markdown file: its path, or
+   * `untitled:<id>` for untitled buffers.
+   * Least recently used first.
+   */
+  private engines = new Map<string, mume.MarkdownEngine>();
+
+  constructor(options: EngineCacheOptions) {
+    this.options = options;
+  }
+
+  public has(filePath: string) {
+    return this.engines.has(filePath);
+  }
+
+  /**
+   * Get the engine of `filePath` and mark it as recently used.
+   * @param filePath
+   */
+  public get(filePath: string): mume.MarkdownEngine {
+    const engine = this.engines.get(filePath);
+    if (engine) {
+      this.engines.delete(filePath);
+      this.engines.set(filePath, engine);
+    }
+    return engine;
+  }
+
+  public set(filePath: string, engine: mume.MarkdownEngine) {
+    this.engines.delete(filePath);
+    this.engines.set(filePath, engine);
+  }
+
+  public forEach(
+    callback: (engine: mume.MarkdownEngine, filePath: string) => void,
+  ) {
+    this.engines.forEach(callback);
+  }
+
+  /**
+   * Evict the least recently used engines until at most `maxSize` are left,
+   * or only the ones of previewed files.
+   * @param maxSize
+   */
+  public evict(maxSize: number) {
+    let excess = this.engines.size - maxSize;
+    // copied, as entries are deleted while iterating
+    Array.from(this.engines.keys()).forEach((filePath) => {
+      if (excess > 0 && !this.options.isBound(filePath)) {
+        this.engines.delete(filePath);
+        excess--;
+      }
+    });
+  }
+
+  /**
+   * Release the engines of the files that are neither previewed nor open.
+   */
+  public releaseUnused() {
+    Array.from(this.engines.keys()).forEach((filePath) => {
+      if (!this.options.isBound(filePath) && !this.options.isOpen(filePath)) {
+        this.engines.delete(filePath);
+      }
+    });
+  }
+}
@@ -0,0 +1,194 @@
+import * as mume from "@shd101wyy/mume";
+import { CompositeDisposable } from "atom";
+import * as path from "path";
+import { ExportJob, ExportJobManager } from "./export-jobs";
+
+export const EXPORT_JOBS_URI = "atom://markdown-preview-enhanced/export-jobs";
+
+/**
+ * Format a duration in milliseconds as `1m 05s`.
+ * @param ms
+ */
+function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const s = seconds % 60;
+  return `${Math.floor(seconds / 60)}m ${s < 10 ? "0" : ""}${s}s`;
+}
+
+/**
+ * Dock item that lists the export jobs and the recent export outputs.
+ */
+export class ExportJobsView {
+  private element: HTMLDivElement = null;
+  private jobsElement: HTMLElement = null;
+  private historyElement: HTMLElement = null;
+  private disposables: CompositeDisposable = new CompositeDisposable();
+  private timer = null;
+
+  constructor(private manager: ExportJobManager) {
+    this.element = document.createElement("div");
+    this.element.classList.add("mpe-export-jobs");
+    this.element.tabIndex = -1;
+
+    this.jobsElement = this.createSection("Export jobs", "Clear finished", () =>
+      this.manager.clearFinishedJobs(),
+    );
+    this.historyElement = this.createSection(
+      "Recent outputs",
+      "Clear history",
+      () => this.manager.clearHistory(),
+    );
+
+    this.disposables.add(this.manager.onDidUpdate(() => this.render()));
+    this.render();
+  }
+
+  private createSection(
+    title: string,
+    clearButtonText: string,
+    onClear: () => void,
+  ): HTMLElement {
+    const header = document.createElement("div");
+    header.classList.add("mpe-export-jobs-header");
+    const titleElement = document.createElement("h2");
+    titleElement.innerText = title;
+    header.appendChild(titleElement);
+    const clearButton = document.createElement("button");
+    clearButton.classList.add("btn", "btn-xs");
+    clearButton.innerText = clearButtonText;
+    clearButton.onclick = onClear;
+    header.appendChild(clearButton);
+    this.element.appendChild(header);
+
+    const list = document.createElement("ul");
+    list.classList.add("list-group");
+    this.element.appendChild(list);
+    return list;
+  }
+
+  public getTitle() {
+    return "MPE Export Jobs";
+  }
+
+  public getURI() {
+    return EXPORT_JOBS_URI;
+  }
+
+  public getIconName() {
+    return "list-unordered";
+  }
+
+  public getDefaultLocation() {
+    return "bottom";
+  }
+
+  public getAllowedLocations() {
+    return ["bottom", "left", "right"];
+  }
+
+  public getElement() {
+    return this.element;
+  }
+
+  private render() {
+    const jobs = this.manager.getJobs();
+    this.jobsElement.innerHTML = "";
+    if (!jobs.length) {
+      this.jobsElement.appendChild(this.createEmptyItem("No export jobs"));
+    }
+    for (let i = jobs.length - 1; i >= 0; i--) {
+      this.jobsElement.appendChild(this.createJobItem(jobs[i]));
+    }
+
+    const history = this.manager.getHistory();
+    this.historyElement.innerHTML = "";
+    if (!history.length) {
+      this.historyElement.appendChild(this.createEmptyItem("No outputs yet"));
+    }
+    for (let i = 0; i < history.length; i++) {
+      const { dest, filePath, format, time } = history[i];
+      const li = document.createElement("li");
+      li.classList.add("list-item", "mpe-export-history-item");
+      li.title = dest;
+      li.innerText = `${path.basename(dest)} (${ExportJobManager.getFormatLabel(
+        format,
+      )}, from ${path.basename(filePath)}, ${new Date(time).toLocaleString()})`;
+      li.onclick = () => mume.utility.openFile(dest);
+      this.historyElement.appendChild(li);
+    }
+
+    // Refresh elapsed time while there are running jobs.
+    const hasRunningJobs = jobs.some((job) => job.state === "running");
+    if (hasRunningJobs && !this.timer) {
+      this.timer = setInterval(() => this.render(), 1000);
+    } else if (!hasRunningJobs && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private createEmptyItem(text: string): HTMLElement {
+    const li = document.createElement("li");
+    li.classList.add("list-item", "text-subtle");
+    li.innerText = text;
+    return li;
+  }
+
+  private createJobItem(job: ExportJob): HTMLElement {
+    const li = document.createElement("li");
+    li.classList.add(
+      "list-item",
+      "mpe-export-job",
+      `mpe-export-job-${job.state}`,
+    );
+    li.title = job.error || job.dest || job.filePath;
+
+    const state = document.createElement("span");
+    state.classList.add("mpe-export-job-state");
+    state.innerText = job.state;
+    li.appendChild(state);
+
+    const description = document.createElement("span");
+    description.classList.add("mpe-export-job-description");
+    const elapsedTime = (job.endTime || Date.now()) - job.startTime;
+    description.innerText = `${path.basename(
+      job.filePath,
+    )} → ${ExportJobManager.getFormatLabel(job.format)} (${formatDuration(
+      elapsedTime,
+    )})`;
+    li.appendChild(description);
+
+    const button = document.createElement("button");
+    button.classList.add("btn", "btn-xs");
+    if (job.state === "running") {
+      button.innerText = "Dismiss";
+      button.title =
+        "Stop tracking this export. It keeps running in the background, " +
+        "but its output is not reported.";
+      button.onclick = () => this.manager.dismiss(job.id);
+      li.appendChild(button);
+    } else if (this.manager.canRetry(job.id)) {
+      button.innerText = "Retry";
+      button.onclick = () => this.manager.retry(job.id);
+      li.appendChild(button);
+    }
+
+    if (job.state === "succeeded") {
+      description.classList.add("mpe-export-job-output");
+      description.onclick = () => mume.utility.openFile(job.dest);
+    }
+    return li;
+  }
+
+  public destroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.disposables.dispose();
+    this.element.remove();
+  }
+}
@@ -0,0 +1,316 @@
+import * as mume from "@shd101wyy/mume";
+import { Disposable, Emitter } from "atom";
+import * as path from "path";
+import {
+  exportFile,
+  ExportFormat,
+  ExportOptions,
+  getExportFormatInfo,
+} from "./exporter";
+
+export type ExportJobState = "running" | "succeeded" | "failed" | "dismissed";
+
+export interface ExportJob {
+  id: number;
+  filePath: string;
+  format: ExportFormat;
+  state: ExportJobState;
+  startTime: number;
+  /**
+   * 0 if the job is still running.
+   */
+  endTime: number;
+  /**
+   * The path of the generated file once the job succeeded.
+   */
+  dest: string;
+  /**
+   * The error message once the job failed.
+   */
+  error: string;
+}
+
+export interface ExportHistoryEntry {
+  filePath: string;
+  format: ExportFormat;
+  dest: string;
+  time: number;
+}
+
+export interface ExportJobOptions extends ExportOptions {
+  /**
+   * Show notifications when the job starts and finishes.
+   * Default is `true`.
+   */
+  notify?: boolean;
+}
+
+/**
+ * Creates the markdown engine of a job, each time that the job starts, so
+ * that finished jobs don't keep their engines.
+ */
+export type EngineFactory = () =>
+  | mume.MarkdownEngine
+  | Promise<mume.MarkdownEngine>;
+
+/**
+ * Key of the `localStorage` item that stores the export history.
+ */
+const HISTORY_STORAGE_KEY = "markdown-preview-enhanced:export-history";
+const MAX_HISTORY_LENGTH = 50;
+
+/**
+ * Keeps track of all export jobs and the recent export outputs.
+ */
+export class ExportJobManager {
+  private jobs: ExportJob[] = [];
+  private history: ExportHistoryEntry[] = null;
+  private nextJobId: number = 1;
+  private emitter = new Emitter();
+
+  /**
+   * Key is job id.
+   * Value is the function that (re)starts the job.
+   */
+  private jobStarters: { [key: number]: () => Promise<string> } = {};
+
+  /**
+   * Key is job id.
+   * Value is the function that stops waiting for the running job, so that
+   * it fails with a "dismissed" error.
+   */
+  private jobDismissers: { [key: number]: () => void } = {};
+
+  /**
+   * Export the file at `filePath` as a tracked job.
+   * Resolves with the path of the generated file.
+   * Rejects if the export failed, or if the job was dismissed.
+   * @param filePath
+   * @param format
+   * @param createEngine Creates the engine of the file, with the settings
+   * of the export
+   * @param options
+   */
+  public run(
+    filePath: string,
+    format: ExportFormat,
+    createEngine: EngineFactory,
+    options: ExportJobOptions = {},
+  ): Promise<string> {
+    const job: ExportJob = {
+      id: this.nextJobId++,
+      filePath,
+      format,
+      state: "running",
+      startTime: 0,
+      endTime: 0,
+      dest: "",
+      error: "",
+    };
+    this.jobs.push(job);
+
+    const notify = options.notify !== false;
+    this.jobStarters[job.id] = () => {
+      job.state = "running";
+      job.startTime = Date.now();
+      job.endTime = 0;
+      job.dest = "";
+      job.error = "";
+      this.emitter.emit("did-update");
+
+      if (notify) {
+        atom.notifications.addInfo("Your document is being prepared", {
+          buttons: [
+            {
+              text: "Show export jobs",
+              onDidClick: () =>
+                atom.commands.dispatch(
+                  atom.views.getView(atom.workspace),
+                  "markdown-preview-enhanced:toggle-export-jobs",
+                ),
+            },
+          ],
+        });
+      }
+
+      const startTime = job.startTime;
+      const dismissal = new Promise<string>((resolve, reject) => {
+        this.jobDismissers[job.id] = () =>
+          reject(new Error("Export job was dismissed"));
+      });
+      const isCurrent = () =>
+        job.state === "running" && job.startTime === startTime;
+      const exported = Promise.resolve()
+        .then(createEngine)
+        .then((engine) => exportFile(engine, format, options));
+      return Promise.race([exported, dismissal]).then(
+        (dest) => {
+          if (!isCurrent()) {
+            // dismissed or restarted
+            throw new Error("Export job was dismissed");
+          }
+          delete this.jobDismissers[job.id];
+          job.state = "succeeded";
+          job.endTime = Date.now();
+          job.dest = dest;
+          this.addToHistory({
+            filePath: job.filePath,
+            format,
+            dest,
+            time: job.endTime,
+          });
+          this.emitter.emit("did-update");
+          if (notify) {
+            ExportJobManager.notifySuccess(dest);
+          }
+          return dest;
+        },
+        (error) => {
+          if (!isCurrent()) {
+            throw new Error("Export job was dismissed");
+          }
+          delete this.jobDismissers[job.id];
+          job.state = "failed";
+          job.endTime = Date.now();
+          job.error = error.toString();
+          this.emitter.emit("did-update");
+          if (notify) {
+            atom.notifications.addError(job.error);
+          }
+          throw error;
+        },
+      );
+    };
+
+    return this.jobStarters[job.id]();
+  }
+
+  private static notifySuccess(dest: string) {
+    if (dest.endsWith("?print-pdf")) {
+      // presentation pdf
+      atom.notifications.addSuccess(
+        `Please copy and open the following link in Chrome, then print as PDF`,
+        {
+          dismissable: true,
+          detail: `Path: \`${dest}\``,
+        },
+      );
+    } else {
+      atom.notifications.addSuccess(
+        `File \`${path.basename(dest)}\` was created at path: \`${dest}\``,
+      );
+    }
+  }
+
+  /**
+   * Stop tracking a running job.
+   * mume doesn't support aborting an export, so the underlying process
+   * (Puppeteer, pandoc, prince...) keeps running in the background until it
+   * finishes. The job fails right away, and the output of the process is
+   * not reported.
+   * @param id
+   */
+  public dismiss(id: number) {
+    const job = this.getJob(id);
+    if (job && job.state === "running") {
+      job.state = "dismissed";
+      job.endTime = Date.now();
+      if (this.jobDismissers[id]) {
+        this.jobDismissers[id]();
+        delete this.jobDismissers[id];
+      }
+      this.emitter.emit("did-update");
+    }
+  }
+
+  /**
+   * Check if the finished job with `id` can be started again.
+   * @param id
+   */
+  public canRetry(id: number): boolean {
+    const job = this.getJob(id);
+    return !!job && job.state !== "running" && !!this.jobStarters[id];
+  }
+
+  /**
+   * Start a finished job again.
+   * @param id
+   */
+  public retry(id: number) {
+    if (this.canRetry(id)) {
+      this.jobStarters[id]().catch(() => {
+        // already reported
+      });
+    }
+  }
+
+  /**
+   * Remove all jobs that are not running.
+   */
+  public clearFinishedJobs() {
+    this.jobs = this.jobs.filter((job) => {
+      if (job.state === "running") {
+        return true;
+      }
+      delete this.jobStarters[job.id];
+      return false;
+    });
+    this.emitter.emit("did-update");
+  }
+
+  public getJob(id: number): ExportJob {
+    for (let i = 0; i < this.jobs.length; i++) {
+      if (this.jobs[i].id === id) {
+        return this.jobs[i];
+      }
+    }
+    return null;
+  }
+
+  public getJobs(): ExportJob[] {
+    return this.jobs;
+  }
+
+  /**
+   * Get the recent export outputs, the newest first.
+   */
+  public getHistory(): ExportHistoryEntry[] {
+    if (!this.history) {
+      try {
+        this.history =
+          JSON.parse(localStorage.getItem(HISTORY_STORAGE_KEY)) || [];
+      } catch (error) {
+        this.history = [];
+      }
+    }
+    return this.history;
+  }
+
+  public clearHistory() {
+    this.history = [];
+    localStorage.removeItem(HISTORY_STORAGE_KEY);
+    this.emitter.emit("did-update");
+  }
+
+  private addToHistory(entry: ExportHistoryEntry) {
+    const history = this.getHistory().filter(({ dest }) => dest !== entry.dest);
+    history.unshift(entry);
+    this.history = history.slice(0, MAX_HISTORY_LENGTH);
+    localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(this.history));
+  }
+
+  /**
+   * cb will be called when a job or the history changed.
+   * @param cb
+   */
+  public onDidUpdate(cb: () => void): Disposable {
+    return this.emitter.on("did-update", cb);
+  }
+
+  public static getFormatLabel(format: ExportFormat) {
+    const info = getExportFormatInfo(format);
+    return info ? info.label : format;
+  }
+}
+
+export const exportJobManager = new ExportJobManager();
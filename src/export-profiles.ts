@@ -0,0 +1,100 @@
+import * as mume from "@shd101wyy/mume";
+import { MarkdownPreviewEnhancedConfig } from "./config";
+import { reportConfigProblems } from "./config-report";
+import { exportJobManager } from "./export-jobs";
+import { getExportFormatInfo } from "./exporter";
+import { MarkdownPreviewEnhancedView } from "./preview-content-provider";
+import {
+  applyProjectConfig,
+  getProjectConfigFilePath,
+  loadProjectConfig,
+  ProjectConfig,
+} from "./project-config";
+import { showSelectList } from "./select-list";
+
+/**
+ * `markdown-preview-enhanced:export-with-profile` command.
+ * Let the user pick one of the export profiles of the project that
+ * `filePath` belongs to, then export `filePath` with it.
+ * @param filePath
+ * @param config
+ */
+export async function exportWithProfileCommand(
+  filePath: string,
+  config: MarkdownPreviewEnhancedConfig,
+) {
+  const projectDirectoryPath = MarkdownPreviewEnhancedView.getProjectDirectoryPathForFilePath(
+    filePath,
+  );
+  if (!projectDirectoryPath) {
+    atom.notifications.addError(
+      "Export profiles are only available for files inside a project.",
+    );
+    return;
+  }
+
+  let projectConfig: ProjectConfig;
+  try {
+    projectConfig = await loadProjectConfig(projectDirectoryPath);
+  } catch (error) {
+    atom.notifications.addError(error.toString());
+    return;
+  }
+
+  const profiles = projectConfig.exportProfiles;
+  if (!profiles.length) {
+    atom.notifications.addError("No export profiles were found.", {
+      dismissable: true,
+      detail: `Please define \`exportProfiles\` in \`${getProjectConfigFilePath(
+        projectDirectoryPath,
+      )}\`, for example:
+
+{
+  "exportProfiles": {
+    "print": { "format": "pdf", "settings": { "printBackground": true } },
+    "docx": { "format": "pandoc", "settings": { "pandocArguments": "--to=docx" } }
+  }
+}`,
+    });
+    return;
+  }
+
+  const profile = await showSelectList(
+    profiles.map((p) => ({
+      label: p.name,
+      description:
+        getExportFormatInfo(p.format).label +
+        (p.description ? ` - ${p.description}` : ""),
+      value: p,
+    })),
+    "Export with profile...",
+  );
+  if (!profile) {
+    return;
+  }
+
+  // A dedicated engine, so the cached one of the preview keeps its
+  // settings. The profile settings are applied last, so they win over the
+  // ones of the project.
+  const profileConfig = applyProjectConfig(
+    config,
+    projectDirectoryPath,
+  ).withOverrides(profile.settings);
+  // invalid profile settings fall back to the project ones, so warn about it
+  reportConfigProblems(profileConfig);
+  exportJobManager
+    .run(
+      filePath,
+      profile.format,
+      () =>
+        new mume.MarkdownEngine({
+          filePath,
+          projectDirectoryPath,
+          config: profileConfig,
+        }),
+      { openFileAfterGeneration: true },
+    )
+    .catch(() => {
+      // already reported by exportJobManager
+    });
+}
@@ -0,0 +1,132 @@
+import * as mume from "@shd101wyy/mume";
+
+/**
+ * All the formats that a markdown file can be exported to.
+ */
+export type ExportFormat =
+  | "html"
+  | "html-offline"
+  | "pdf"
+  | "png"
+  | "jpeg"
+  | "prince"
+  | "ebook-epub"
+  | "ebook-mobi"
+  | "ebook-pdf"
+  | "ebook-html"
+  | "pandoc"
+  | "markdown";
+
+export interface ExportOptions {
+  /**
+   * Open the generated file once the export is done.
+   * Only formats whose mume exporter supports it honor this option.
+   */
+  openFileAfterGeneration?: boolean;
+}
+
+interface ExportFormatInfo {
+  format: ExportFormat;
+  label: string;
+  run: (engine: mume.MarkdownEngine, options: ExportOptions) => Promise<string>;
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  {
+    format: "html",
+    label: "HTML (cdn hosted)",
+    run: (engine) => engine.htmlExport({ offline: false }),
+  },
+  {
+    format: "html-offline",
+    label: "HTML (offline)",
+    run: (engine) => engine.htmlExport({ offline: true }),
+  },
+  {
+    format: "pdf",
+    label: "Chrome (Puppeteer): PDF",
+    run: (engine, { openFileAfterGeneration }) =>
+      engine.chromeExport({ fileType: "pdf", openFileAfterGeneration }),
+  },
+  {
+    format: "png",
+    label: "Chrome (Puppeteer): PNG",
+    run: (engine, { openFileAfterGeneration }) =>
+      engine.chromeExport({ fileType: "png", openFileAfterGeneration }),
+  },
+  {
+    format: "jpeg",
+    label: "Chrome (Puppeteer): JPEG",
+    run: (engine, { openFileAfterGeneration }) =>
+      engine.chromeExport({ fileType: "jpeg", openFileAfterGeneration }),
+  },
+  {
+    format: "prince",
+    label: "PDF (prince)",
+    run: (engine, { openFileAfterGeneration }) =>
+      engine.princeExport({ openFileAfterGeneration }),
+  },
+  {
+    format: "ebook-epub",
+    label: "eBook: ePub",
+    run: (engine) => engine.eBookExport({ fileType: "epub" }),
+  },
+  {
+    format: "ebook-mobi",
+    label: "eBook: mobi",
+    run: (engine) => engine.eBookExport({ fileType: "mobi" }),
+  },
+  {
+    format: "ebook-pdf",
+    label: "eBook: PDF",
+    run: (engine) => engine.eBookExport({ fileType: "pdf" }),
+  },
+  {
+    format: "ebook-html",
+    label: "eBook: HTML",
+    run: (engine) => engine.eBookExport({ fileType: "html" }),
+  },
+  {
+    format: "pandoc",
+    label: "Pandoc",
+    run: (engine, { openFileAfterGeneration }) =>
+      engine.pandocExport({ openFileAfterGeneration }),
+  },
+  {
+    format: "markdown",
+    label: "Save as Markdown",
+    run: (engine) => engine.markdownExport({}),
+  },
+];
+
+/**
+ * Get the information of `format`, or `null` if `format` is unknown.
+ * @param format
+ */
+export function getExportFormatInfo(format: string): ExportFormatInfo {
+  for (let i = 0; i < EXPORT_FORMATS.length; i++) {
+    if (EXPORT_FORMATS[i].format === format) {
+      return EXPORT_FORMATS[i];
+    }
+  }
+  return null;
+}
+
+/**
+ * Export the file that `engine` is bound to.
+ * Resolves with the path of the generated file.
+ * @param engine
+ * @param format
+ * @param options
+ */
+export function exportFile(
+  engine: mume.MarkdownEngine,
+  format: ExportFormat,
+  options: ExportOptions = {},
+): Promise<string> {
+  const info = getExportFormatInfo(format);
+  if (!info) {
+    return Promise.reject(new Error(`Unknown export format: ${format}`));
+  }
+  return info.run(engine, options);
+}
@@ -1,8 +1,22 @@
 import * as mume from "@shd101wyy/mume";
 import { CompositeDisposable, TextBuffer, TextEditor } from "atom";
 import * as path from "path";
+import { exportFolderCommand } from "./batch-export";
 import { MarkdownPreviewEnhancedConfig } from "./config";
+import { reportConfigProblems, showConfigReport } from "./config-report";
+import { exportJobManager } from "./export-jobs";
+import { EXPORT_JOBS_URI, ExportJobsView } from "./export-jobs-view";
+import { exportWithProfileCommand } from "./export-profiles";
+import { EXPORT_FORMATS, ExportFormat } from "./exporter";
+import { isMarkdownEditor, isMarkdownFile } from "./markdown-detection";
 import { MarkdownPreviewEnhancedView } from "./preview-content-provider";
+import { previewServer } from "./preview-server";
+import {
+  applyProjectConfig,
+  loadProjectConfig,
+  PROJECT_CONFIG_FILE_NAME,
+} from "./project-config";
+import { MarkdownPreviewEnhancedService, PreviewService } from "./service";
 
 const utility = mume.utility;
 
@@ -10,38 +24,74 @@ let subscriptions: CompositeDisposable = null;
 let config: MarkdownPreviewEnhancedConfig = null;
 
 /**
- * Key is editor.getPath()
+ * Key is the source uri of the editor, or `single_preview`.
+ * See `MarkdownPreviewEnhancedView.getSourceUri`.
  * Value is MarkdownPreviewEnhancedView object
  */
 let previewsMap: { [key: string]: MarkdownPreviewEnhancedView } = {};
 
 /**
- * Check if the `filePath` is a markdown file.
- * @param filePath
+ * Forwards the events of all previews to the `markdown-preview-enhanced`
+ * service.
+ */
+const previewService = new PreviewService({
+  getConfig: () => {
+    if (!config) {
+      config = new MarkdownPreviewEnhancedConfig();
+    }
+    return config;
+  },
+  startPreview,
+  getPreviewForEditor,
+});
+
+/**
+ * This function will be called when `config` is changed.
+ * @param changedNames The settings whose value changed
  */
-function isMarkdownFile(filePath: string = ""): boolean {
-  if (filePath.startsWith("mpe://")) {
-    return false;
-  } // this is preview
-
-  const ext = path.extname(filePath);
-  for (let i = 0; i < config.fileExtension.length; i++) {
-    if (config.fileExtension[i] === ext) {
-      return true;
+function onDidChangeConfig(changedNames: string[]): void {
+  reportConfigProblems(config);
+  for (const sourceUri in previewsMap) {
+    if (previewsMap.hasOwnProperty(sourceUri)) {
+      previewsMap[sourceUri].updateConfiguration(changedNames);
     }
   }
-  return false;
 }
+
 /**
- * This function will be called when `config` is changed.
- * @param config
+ * This function will be called when a config file of mume, such as the
+ * global style, is changed.
  */
-function onDidChangeConfig(): void {
+function onDidChangeConfigFile(): void {
+  for (const sourceUri in previewsMap) {
+    if (previewsMap.hasOwnProperty(sourceUri)) {
+      previewsMap[sourceUri].reloadConfiguration();
+    }
+  }
+}
+
+/**
+ * This function will be called when the project config file
+ * in `projectDirectoryPath` is created, changed or deleted.
+ * @param projectDirectoryPath
+ */
+async function onDidChangeProjectConfig(projectDirectoryPath: string) {
+  try {
+    await loadProjectConfig(projectDirectoryPath, true);
+  } catch (error) {
+    atom.notifications.addError(error.toString());
+  }
   for (const sourceUri in previewsMap) {
     if (previewsMap.hasOwnProperty(sourceUri)) {
       const preview = previewsMap[sourceUri];
-      preview.updateConfiguration();
-      preview.loadPreview();
+      if (
+        preview.getFilePath() &&
+        MarkdownPreviewEnhancedView.getProjectDirectoryPathForFilePath(
+          preview.getFilePath(),
+        ) === projectDirectoryPath
+      ) {
+        preview.updateConfiguration();
+      }
     }
   }
 }
@@ -64,6 +114,10 @@ function getPreviewForEditor(editor) {
     return previewsMap[editor];
   } else if (editor instanceof MarkdownPreviewEnhancedView) {
     return editor;
+  } else if (editor && editor.getBuffer) {
+    return previewsMap[
+      MarkdownPreviewEnhancedView.getSourceUri(editor.getBuffer())
+    ];
   } else if (editor && editor.getPath) {
     return previewsMap[editor.getPath()];
   } else {
@@ -78,7 +132,11 @@ function togglePreview() {
   const editor = atom.workspace.getActivePaneItem();
   const preview = getPreviewForEditor(editor);
 
-  if (preview && preview["getEditor"] && preview["getEditor"]()) {
+  if (
+    preview &&
+    preview["getEditor"] &&
+    (preview["getEditor"]() || preview === editor)
+  ) {
     // preview is already on, so remove it.
     const pane = atom.workspace.paneForItem(preview);
     pane.destroyItem(preview); // this will trigger preview.destroy()
@@ -100,33 +158,192 @@ function removePreviewFromMap(preview: MarkdownPreviewEnhancedView) {
   }
 }
 
+/**
+ * Move `preview` to the new source uri of its editor in `previewsMap`, such
+ * as when its untitled buffer was saved for the first time.
+ * @param preview
+ * @param sourceUri
+ */
+function movePreviewInMap(
+  preview: MarkdownPreviewEnhancedView,
+  sourceUri: string,
+) {
+  if (config.singlePreview) {
+    return;
+  }
+  removePreviewFromMap(preview);
+  previewsMap[sourceUri] = preview;
+}
+
+/**
+ * Apply zen mode to the markdown `editor`, and handle the images dropped on
+ * it.
+ * @param editor
+ */
+function initMarkdownEditor(editor: TextEditor) {
+  const editorElement = editor["getElement"]();
+  if (atom.config.get("markdown-preview-enhanced.enableZenMode")) {
+    editorElement.setAttribute("data-markdown-zen", "");
+  } else {
+    editorElement.removeAttribute("data-markdown-zen");
+  }
+
+  // drop drop image events
+  bindMarkdownEditorDropEvents(editor);
+}
+
 /**
  * Start preview for editor
+ * Untitled editors are previewed if they use a markdown grammar.
  * @param editor
  */
 function startPreview(editor) {
-  if (!editor || !editor["getPath"] || !isMarkdownFile(editor.getPath())) {
+  if (!editor || !atom.workspace.isTextEditor(editor)) {
+    return;
+  } else if (!isMarkdownEditor(editor, config)) {
     return;
   }
 
   let preview = getPreviewForEditor(editor);
 
   if (!preview) {
+    const sourceUri = MarkdownPreviewEnhancedView.getSourceUri(
+      editor.getBuffer(),
+    );
     if (config.singlePreview) {
       preview = new MarkdownPreviewEnhancedView("mpe://single_preview", config);
       previewsMap["single_preview"] = preview;
     } else {
-      preview = new MarkdownPreviewEnhancedView(
-        "mpe://" + editor.getPath(),
-        config,
-      );
-      previewsMap[editor.getPath()] = preview;
+      preview = new MarkdownPreviewEnhancedView("mpe://" + sourceUri, config);
+      previewsMap[sourceUri] = preview;
     }
     preview.onPreviewDidDestroy(removePreviewFromMap);
+    preview.onDidChangeSourceUri((newSourceUri) =>
+      movePreviewInMap(preview, newSourceUri),
+    );
+    preview.bindEditor(editor);
+    previewService.addPreview(preview);
+  } else if (preview.getEditor() !== editor) {
+    preview.bindEditor(editor);
+  }
+}
+
+/**
+ * Start preview for the markdown file at `filePath`.
+ * The preview is bound to an open editor of the file, or to the file only if
+ * there is none.
+ * @param filePath
+ */
+function startFilePreview(filePath: string) {
+  const editor = atom.workspace
+    .getTextEditors()
+    .filter((textEditor) => textEditor.getPath() === filePath)[0];
+  if (editor) {
+    return startPreview(editor);
+  }
+
+  let preview = getPreviewForEditor(filePath);
+
+  if (!preview) {
+    const key = config.singlePreview ? "single_preview" : filePath;
+    preview = new MarkdownPreviewEnhancedView("mpe://" + key, config);
+    previewsMap[key] = preview;
+    preview.onPreviewDidDestroy(removePreviewFromMap);
+    preview.onDidChangeSourceUri((sourceUri) =>
+      movePreviewInMap(preview, sourceUri),
+    );
+    preview.bindFile(filePath);
+    previewService.addPreview(preview);
+  } else if (preview.getFilePath() !== filePath) {
+    preview.bindFile(filePath);
+  } else {
+    const pane = atom.workspace.paneForItem(preview);
+    if (pane) {
+      pane.activateItem(preview);
+    }
   }
+}
 
-  if (preview.getEditor() !== editor) {
-    preview.bindEditor(editor);
+/**
+ * Get the file that is selected in the tree-view.
+ * @param target The element that the command was dispatched to.
+ */
+function getTreeViewSelectedFile(target: HTMLElement): string {
+  let entry = target && target.closest ? target.closest(".entry") : null;
+  if (!entry) {
+    entry = document.querySelector(".tree-view .entry.selected");
+  }
+  if (!entry || !entry.classList.contains("file")) {
+    return null;
+  }
+  const nameElement = entry.querySelector("[data-path]") as HTMLElement;
+  return nameElement ? nameElement.dataset.path : null;
+}
+
+/**
+ * `markdown-preview-enhanced:preview-file` command of the tree-view.
+ * Preview the selected markdown file without opening it in an editor.
+ * @param event
+ */
+function previewTreeViewFile(event: Event) {
+  const filePath = getTreeViewSelectedFile(event.target as HTMLElement);
+  if (!filePath || !isMarkdownFile(filePath, config)) {
+    atom.notifications.addError(
+      "Please select a markdown file in the tree view.",
+    );
+    return;
+  }
+  startFilePreview(filePath);
+}
+
+/**
+ * Restore a preview serialized by `MarkdownPreviewEnhancedView.serialize`.
+ * This might be called before `activate`.
+ * @param state
+ */
+export function deserializePreview(state) {
+  if (!state || !state.filePath) {
+    return;
+  }
+  if (!config) {
+    config = new MarkdownPreviewEnhancedConfig();
+  }
+
+  const key = config.singlePreview ? "single_preview" : state.filePath;
+  if (previewsMap[key] || state.uri !== "mpe://" + key) {
+    // already restored, or `singlePreview` was toggled since serialization.
+    return;
+  }
+
+  const preview = new MarkdownPreviewEnhancedView(state.uri, config);
+  preview.restoreState(state);
+  preview.onPreviewDidDestroy(removePreviewFromMap);
+  preview.onDidChangeSourceUri((sourceUri) =>
+    movePreviewInMap(preview, sourceUri),
+  );
+  previewsMap[key] = preview;
+  previewService.addPreview(preview);
+  return preview;
+}
+
+/**
+ * Bind `editor` to the preview of its file that isn't bound to an editor,
+ * such as a restored preview that waits for it, or a preview bound to the
+ * file only.
+ * @param editor
+ */
+function bindPreviewWithoutEditor(editor: TextEditor) {
+  for (const key in previewsMap) {
+    if (previewsMap.hasOwnProperty(key)) {
+      const preview = previewsMap[key];
+      if (
+        !preview.getEditor() &&
+        preview.getFilePath() &&
+        preview.getFilePath() === editor.getPath()
+      ) {
+        preview.bindEditor(editor);
+      }
+    }
   }
 }
 
@@ -137,9 +354,32 @@ export function activate(state) {
       subscriptions = new CompositeDisposable();
 
       // Init config
-      config = new MarkdownPreviewEnhancedConfig();
+      if (!config) {
+        // might have been created by `deserializePreview`
+        config = new MarkdownPreviewEnhancedConfig();
+      }
+      reportConfigProblems(config);
       config.onDidChange(subscriptions, onDidChangeConfig);
-      mume.onDidChangeConfigFile(onDidChangeConfig);
+      mume.onDidChangeConfigFile(onDidChangeConfigFile);
+
+      // Watch project config files
+      subscriptions.add(
+        atom.project.onDidChangeFiles((events) => {
+          const projectPaths = atom.project.getPaths();
+          const changedProjectPaths = [];
+          for (let i = 0; i < events.length; i++) {
+            const directoryPath = path.dirname(events[i].path);
+            if (
+              path.basename(events[i].path) === PROJECT_CONFIG_FILE_NAME &&
+              projectPaths.indexOf(directoryPath) >= 0 &&
+              changedProjectPaths.indexOf(directoryPath) < 0
+            ) {
+              changedProjectPaths.push(directoryPath);
+            }
+          }
+          changedProjectPaths.forEach(onDidChangeProjectConfig);
+        }),
+      );
 
       // Set opener
       subscriptions.add(
@@ -154,6 +394,14 @@ export function activate(state) {
         }),
       );
 
+      subscriptions.add(
+        atom.workspace.addOpener((uri) => {
+          if (uri === EXPORT_JOBS_URI) {
+            return new ExportJobsView(exportJobManager);
+          }
+        }),
+      );
+
       // Register commands
       subscriptions.add(
         atom.commands.add("atom-workspace", {
@@ -175,6 +423,57 @@ export function activate(state) {
           "markdown-preview-enhanced:run-code-chunk": runCodeChunkCommand,
           "markdown-preview-enhanced:run-all-code-chunks": runAllCodeChunks,
           "markdown-preview-enhanced:show-uploaded-images": showUploadedImages,
+          "markdown-preview-enhanced:export-folder": (event) =>
+            exportFolderCommand(event, config),
+          "markdown-preview-enhanced:preview-file": previewTreeViewFile,
+          "markdown-preview-enhanced:toggle-export-jobs": toggleExportJobs,
+          "markdown-preview-enhanced:export-with-profile": exportWithProfile,
+          "markdown-preview-enhanced:show-config-report": showConfigReportCommand,
+          "markdown-preview-enhanced:start-preview-server": startPreviewServer,
+          "markdown-preview-enhanced:stop-preview-server": stopPreviewServer,
+        }),
+      );
+
+      // Register one export command per format
+      const exportCommands = {};
+      EXPORT_FORMATS.forEach(({ format }) => {
+        exportCommands[`markdown-preview-enhanced:export-${format}`] = () =>
+          exportActiveFile(format);
+      });
+      subscriptions.add(atom.commands.add("atom-workspace", exportCommands));
+
+      // Bind previews to the editors of their files, such as restored
+      // previews when their editors come back
+      subscriptions.add(
+        atom.workspace.observeTextEditors(bindPreviewWithoutEditor),
+      );
+
+      // Restored previews that were bound to their files only, and whose
+      // editors didn't come back
+      for (const key in previewsMap) {
+        if (previewsMap.hasOwnProperty(key)) {
+          previewsMap[key].bindRestoredFile();
+        }
+      }
+
+      // Editors that are set to a markdown grammar after they were opened,
+      // and release the markdown engines of the files that were closed
+      subscriptions.add(
+        atom.workspace.observeTextEditors((editor) => {
+          const editorSubscriptions = new CompositeDisposable();
+          subscriptions.add(editorSubscriptions);
+          editorSubscriptions.add(
+            editor.onDidChangeGrammar(() => {
+              if (isMarkdownEditor(editor, config)) {
+                initMarkdownEditor(editor);
+              }
+            }),
+            editor.onDidDestroy(() => {
+              subscriptions.remove(editorSubscriptions);
+              editorSubscriptions.dispose();
+              MarkdownPreviewEnhancedView.releaseUnusedEngines();
+            }),
+          );
         }),
       );
 
@@ -184,9 +483,8 @@ export function activate(state) {
         atom.workspace.onDidStopChangingActivePaneItem((editor: TextEditor) => {
           if (
             editor &&
-            editor["buffer"] &&
-            editor["getPath"] &&
-            isMarkdownFile(editor["getPath"]())
+            atom.workspace.isTextEditor(editor) &&
+            isMarkdownEditor(editor, config)
           ) {
             const preview = getPreviewForEditor(editor);
             if (!preview) {
@@ -219,10 +517,8 @@ export function activate(state) {
         atom.workspace.onDidOpen((event) => {
           if (config.openPreviewPaneAutomatically) {
             if (
-              event.uri &&
-              event.item &&
-              isMarkdownFile(event.uri) &&
-              !event.uri.startsWith("mpe://")
+              atom.workspace.isTextEditor(event.item) &&
+              isMarkdownEditor(event.item, config)
             ) {
               const pane = event.pane;
               const panes = atom.workspace.getPanes();
@@ -240,19 +536,11 @@ export function activate(state) {
           }
 
           // check zen mode
-          if (event.uri && event.item && isMarkdownFile(event.uri)) {
-            const editor = event.item;
-            const editorElement = editor["getElement"]();
-            if (editor && editor["buffer"]) {
-              if (atom.config.get("markdown-preview-enhanced.enableZenMode")) {
-                editorElement.setAttribute("data-markdown-zen", "");
-              } else {
-                editorElement.removeAttribute("data-markdown-zen");
-              }
-            }
-
-            // drop drop image events
-            bindMarkdownEditorDropEvents(editor);
+          if (
+            atom.workspace.isTextEditor(event.item) &&
+            isMarkdownEditor(event.item, config)
+          ) {
+            initMarkdownEditor(event.item);
           }
         }),
       );
@@ -262,25 +550,10 @@ export function activate(state) {
         atom.config.observe(
           "markdown-preview-enhanced.enableZenMode",
           (enableZenMode) => {
-            const paneItems = atom.workspace.getPaneItems();
-            for (let i = 0; i < paneItems.length; i++) {
-              const editor = paneItems[i];
-              if (
-                editor &&
-                editor["getPath"] &&
-                isMarkdownFile(editor["getPath"]())
-              ) {
-                if (editor["buffer"]) {
-                  const editorElement = editor["getElement"]();
-                  if (enableZenMode) {
-                    editorElement.setAttribute("data-markdown-zen", "");
-                  } else {
-                    editorElement.removeAttribute("data-markdown-zen");
-                  }
-                }
-
-                // drop drop image events
-                bindMarkdownEditorDropEvents(editor);
+            const editors = atom.workspace.getTextEditors();
+            for (let i = 0; i < editors.length; i++) {
+              if (isMarkdownEditor(editors[i], config)) {
+                initMarkdownEditor(editors[i]);
               }
             }
 
@@ -364,12 +637,11 @@ function bindMarkdownEditorDropEvents(editor) {
             const description = path
               .basename(imageFilePath)
               .replace(path.extname(imageFilePath), "");
-            editor.insertText(
-              `![${description}](${path.relative(
-                path.dirname(editorPath),
-                imageFilePath,
-              )})`,
-            );
+            // untitled editors get the absolute path
+            const imagePath = editorPath
+              ? path.relative(path.dirname(editorPath), imageFilePath)
+              : imageFilePath;
+            editor.insertText(`![${description}](${imagePath})`);
           } else if (imageDropAction.startsWith("copy")) {
             // copy to image folder
             event.stopPropagation();
@@ -555,6 +827,138 @@ function showUploadedImages() {
   atom.workspace.open(imageHistoryFilePath);
 }
 
+/**
+ * Get the markdown editor that is active, or that is bound to the active
+ * preview.
+ */
+function getActiveMarkdownEditor(): TextEditor {
+  const item = atom.workspace.getActivePaneItem();
+  const editor =
+    item instanceof MarkdownPreviewEnhancedView
+      ? item.getEditor()
+      : atom.workspace.getActiveTextEditor();
+  if (editor && editor.getPath() && isMarkdownEditor(editor, config)) {
+    return editor;
+  } else {
+    return null;
+  }
+}
+
+function exportWithProfile() {
+  const editor = getActiveMarkdownEditor();
+  if (!editor) {
+    atom.notifications.addError("Please open a markdown file first.");
+  } else {
+    exportWithProfileCommand(editor.getPath(), config);
+  }
+}
+
+/**
+ * Show the effective configuration for the active markdown file,
+ * or the global configuration if no markdown file is active.
+ */
+async function showConfigReportCommand() {
+  const projectDirectoryPath = MarkdownPreviewEnhancedView.getProjectDirectoryPathForEditor(
+    getActiveMarkdownEditor(),
+  );
+  if (projectDirectoryPath) {
+    try {
+      await loadProjectConfig(projectDirectoryPath);
+    } catch (error) {
+      atom.notifications.addError(error.toString());
+    }
+  }
+  showConfigReport(
+    applyProjectConfig(config, projectDirectoryPath),
+    projectDirectoryPath,
+  );
+}
+
+/**
+ * `markdown-preview-enhanced:export-*` commands.
+ * Export the active markdown file without opening its preview.
+ * @param format
+ */
+async function exportActiveFile(format: ExportFormat) {
+  const editor = getActiveMarkdownEditor();
+  if (!editor) {
+    atom.notifications.addError("Please open a markdown file first.");
+    return;
+  }
+  if (editor.isModified()) {
+    atom.notifications.addWarning(
+      `${path.basename(
+        editor.getPath(),
+      )} has unsaved changes. The saved file will be exported.`,
+    );
+  }
+  const filePath = editor.getPath();
+  exportJobManager
+    .run(
+      filePath,
+      format,
+      () => MarkdownPreviewEnhancedView.getEngineForFilePath(filePath, config),
+      { openFileAfterGeneration: true },
+    )
+    .catch(() => {
+      // already reported by exportJobManager
+    });
+}
+
+/**
+ * Serve the active preview, or the preview of the active markdown file, to
+ * browsers.
+ */
+async function startPreviewServer() {
+  const item = atom.workspace.getActivePaneItem();
+  const editor = getActiveMarkdownEditor();
+  const preview =
+    item instanceof MarkdownPreviewEnhancedView
+      ? item
+      : editor && getPreviewForEditor(editor);
+  if (!preview) {
+    atom.notifications.addError("Please open preview first.");
+    return;
+  } else if (!preview.getFilePath()) {
+    // untitled buffer
+    atom.notifications.addError(
+      "Please save the markdown file before serving its preview.",
+    );
+    return;
+  }
+  let url: string;
+  try {
+    url = await previewServer.start(preview, config);
+  } catch (error) {
+    atom.notifications.addError(
+      `Failed to start the preview server: ${error.message}`,
+    );
+    return;
+  }
+  atom.notifications.addSuccess(`The preview is served at ${url}`, {
+    dismissable: true,
+    buttons: [
+      {
+        text: "Open in browser",
+        onDidClick: () => mume.utility.openFile(url),
+      },
+    ],
+  });
+}
+
+function stopPreviewServer() {
+  if (!previewServer.isRunning()) {
+    atom.notifications.addInfo("The preview server is not running.");
+  } else {
+    previewServer.stop();
+    atom.notifications.addInfo("The preview server stopped.");
+  }
+}
+
+function toggleExportJobs() {
+  atom.workspace.toggle(EXPORT_JOBS_URI);
+}
+
 /**
  * Code chunk `modify_source` is triggered.
  * @param codeChunkData
@@ -660,8 +1064,18 @@ async function onModifySource(
 
 mume.MarkdownEngine.onModifySource(onModifySource);
 
+/**
+ * Provide the `markdown-preview-enhanced` service to other packages.
+ * See `providedServices` in package.json.
+ */
+export function provideService(): MarkdownPreviewEnhancedService {
+  return previewService.provide();
+}
+
 export function deactivate() {
   subscriptions.dispose();
+  previewServer.stop();
+  MarkdownPreviewEnhancedView.removeTempHTMLFiles();
 }
 
 export { configSchema as config } from "./config-schema";
@@ -0,0 +1,202 @@
+/**
+ * Block-level differences between two renders of the preview, so that only
+ * the changed top-level elements of the preview are replaced.
+ */
+
+/**
+ * Replace `deleteCount` blocks at `start` with `blocks`, and add
+ * `lineDelta` to the `data-line` attributes of the blocks after them.
+ */
+export interface HTMLPatch {
+  start: number;
+  deleteCount: number;
+  blocks: string[];
+  lineDelta: number;
+  /**
+   * The number of blocks before and after the patch, so that the webview
+   * can check that its elements match the blocks.
+   */
+  previousBlockCount: number;
+  blockCount: number;
+}
+
+/**
+ * Blocks are replaced by a full update once more than this ratio of them
+ * changed.
+ */
+const MAX_CHANGED_RATIO = 0.5;
+
+/**
+ * Blocks rendered by scripts of the `mume` webview script that the patches
+ * don't run, as the patches only render mermaid graphs and math again.
+ * Changing one of them needs a full update:
+ * code chunks, wavedrom, zenuml, flowcharts, sequence diagrams and
+ * interactive vega.
+ */
+const FULL_UPDATE_REGEX = /<script\b|class="[^"]*\b(code-chunk|wavedrom|zenuml|flow|sequence|vega|vega-lite)\b/i;
+
+const VOID_ELEMENTS = [
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "param",
+  "source",
+  "track",
+  "wbr",
+];
+
+const RAW_TEXT_ELEMENTS = ["script", "style", "textarea", "title"];
+
+/**
+ * Matches a start or end tag at the beginning of the string.
+ * Attribute values may contain `>`.
+ */
+const TAG_REGEX = /^<(\/?)([a-zA-Z][\w:-]*)((?:\s+[^\s"'>\/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/;
+
+/**
+ * Split `html` into its top-level elements.
+ * Returns `null` if it can't be split reliably, such as when tags are not
+ * closed or text is not in an element.
+ * @param html
+ */
+export function splitHTMLBlocks(html: string): string[] {
+  const blocks: string[] = [];
+  const openTags: string[] = [];
+  let blockStart = -1;
+  let i = 0;
+  while (i < html.length) {
+    if (!openTags.length) {
+      const whitespace = html.slice(i).match(/^\s+/);
+      if (whitespace) {
+        i += whitespace[0].length;
+        continue;
+      }
+      if (html[i] !== "<") {
+        return null;
+      }
+      blockStart = i;
+    }
+
+    const next = html.indexOf("<", i);
+    if (next < 0) {
+      // text after the last tag
+      return openTags.length ? null : blocks;
+    }
+    i = next;
+    if (html.startsWith("<!--", i)) {
+      const end = html.indexOf("-->", i + 4);
+      if (end < 0 || !openTags.length) {
+        return null;
+      }
+      i = end + 3;
+      continue;
+    }
+
+    const match = html.slice(i).match(TAG_REGEX);
+    if (!match) {
+      // a `<` in text
+      if (!openTags.length) {
+        return null;
+      }
+      i++;
+      continue;
+    }
+    i += match[0].length;
+    const tagName = match[2].toLowerCase();
+    if (match[1]) {
+      if (openTags.pop() !== tagName) {
+        return null;
+      }
+    } else if (RAW_TEXT_ELEMENTS.indexOf(tagName) >= 0) {
+      const end = html.toLowerCase().indexOf(`</${tagName}`, i);
+      if (end < 0) {
+        return null;
+      }
+      // the end tag is handled by the next iteration
+      i = end;
+      openTags.push(tagName);
+    } else if (!match[4] && VOID_ELEMENTS.indexOf(tagName) < 0) {
+      openTags.push(tagName);
+    }
+
+    if (!openTags.length) {
+      blocks.push(html.slice(blockStart, i));
+    }
+  }
+  return openTags.length ? null : blocks;
+}
+
+/**
+ * Add `lineDelta` to the `data-line` attributes of `html`.
+ * @param html
+ * @param lineDelta
+ */
+function shiftDataLines(html: string, lineDelta: number) {
+  if (!lineDelta) {
+    return html;
+  }
+  return html.replace(
+    /(\sdata-line=")(\d+)"/g,
+    (whole, prefix, line) => `${prefix}${parseInt(line, 10) + lineDelta}"`,
+  );
+}
+
+/**
+ * Get the patch that turns the `previous` blocks into the `next` ones.
+ * Returns `null` if a full update should be done instead.
+ * @param previous
+ * @param next
+ * @param lineDelta The difference of the line counts of both renders.
+ * The blocks after the change are expected to be moved by that many lines.
+ */
+export function diffHTMLBlocks(
+  previous: string[],
+  next: string[],
+  lineDelta: number,
+): HTMLPatch {
+  let start = 0;
+  while (
+    start < previous.length &&
+    start < next.length &&
+    previous[start] === next[start]
+  ) {
+    start++;
+  }
+
+  let previousEnd = previous.length;
+  let nextEnd = next.length;
+  while (
+    previousEnd > start &&
+    nextEnd > start &&
+    shiftDataLines(previous[previousEnd - 1], lineDelta) === next[nextEnd - 1]
+  ) {
+    previousEnd--;
+    nextEnd--;
+  }
+
+  const deleted = previous.slice(start, previousEnd);
+  const blocks = next.slice(start, nextEnd);
+  if (
+    deleted.length + blocks.length >
+      Math.max(previous.length, next.length) * MAX_CHANGED_RATIO ||
+    deleted.concat(blocks).some((block) => FULL_UPDATE_REGEX.test(block))
+  ) {
+    return null;
+  }
+
+  return {
+    start,
+    deleteCount: deleted.length,
+    blocks,
+    lineDelta: nextEnd < next.length ? lineDelta : 0,
+    previousBlockCount: previous.length,
+    blockCount: next.length,
+  };
+}
@@ -0,0 +1,151 @@
+import { CompositeDisposable, File } from "atom";
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * `@import "file"`, also in a html comment.
+ * Attributes such as `{line_begin=2}` may follow.
+ */
+const IMPORT_REGEX = /^\s*(?:<!--\s*)?@import\s+(["'])(.+?)\1/;
+const FENCE_REGEX = /^\s*(`{3,}|~{3,})/;
+const MARKDOWN_EXTENSIONS = [".md", ".markdown", ".mdown", ".mkd", ".mkdn"];
+
+/**
+ * Get the paths of the files imported by the markdown `text`.
+ * Imports in fenced code blocks, urls and `[TOC]` are ignored.
+ * @param text
+ * @param filePath The path of the markdown file
+ * @param projectDirectoryPath Imports starting with `/` are relative to it
+ */
+export function getImportPaths(
+  text: string,
+  filePath: string,
+  projectDirectoryPath: string,
+): string[] {
+  const importPaths: string[] = [];
+  const lines = text.split(/\r?\n/);
+  let fence: string = null;
+  for (let i = 0; i < lines.length; i++) {
+    const fenceMatch = lines[i].match(FENCE_REGEX);
+    if (fenceMatch) {
+      if (!fence) {
+        fence = fenceMatch[1];
+      } else if (
+        fenceMatch[1][0] === fence[0] &&
+        fenceMatch[1].length >= fence.length
+      ) {
+        fence = null;
+      }
+      continue;
+    }
+    const match = !fence && lines[i].match(IMPORT_REGEX);
+    if (!match || match[2] === "[TOC]" || /^\w+:\/\//.test(match[2])) {
+      continue;
+    }
+    const importPath = match[2].replace(/[?#].*$/, "");
+    importPaths.push(
+      importPath.startsWith("/")
+        ? path.join(projectDirectoryPath || "/", importPath)
+        : path.resolve(path.dirname(filePath), importPath),
+    );
+  }
+  return importPaths;
+}
+
+/**
+ * Get the paths of the files that the markdown `text` imports, including the
+ * ones imported by the imported markdown files.
+ * Files that don't exist are left out.
+ * @param text
+ * @param filePath The path of the markdown file
+ * @param projectDirectoryPath
+ */
+export async function findImportedFiles(
+  text: string,
+  filePath: string,
+  projectDirectoryPath: string,
+): Promise<string[]> {
+  const importedFiles: string[] = [];
+  const visit = async (fileText: string, fromFilePath: string) => {
+    const importPaths = getImportPaths(
+      fileText,
+      fromFilePath,
+      projectDirectoryPath,
+    );
+    for (let i = 0; i < importPaths.length; i++) {
+      const importPath = importPaths[i];
+      if (importPath === filePath || importedFiles.indexOf(importPath) >= 0) {
+        continue;
+      }
+      let importText: string;
+      try {
+        importText = await new Promise<string>((resolve, reject) =>
+          fs.readFile(importPath, { encoding: "utf-8" }, (error, data) =>
+            error ? reject(error) : resolve(data),
+          ),
+        );
+      } catch (error) {
+        continue;
+      }
+      importedFiles.push(importPath);
+      if (
+        MARKDOWN_EXTENSIONS.indexOf(path.extname(importPath).toLowerCase()) >= 0
+      ) {
+        await visit(importText, importPath);
+      }
+    }
+  };
+  await visit(text, filePath);
+  return importedFiles;
+}
+
+/**
+ * Watches the files imported by a preview.
+ * Files changed by atom and by other programs are both reported.
+ */
+export class ImportWatcher {
+  private onDidChange: (filePath: string) => void;
+  /**
+   * Key is the path of a watched file.
+   */
+  private subscriptions: { [key: string]: CompositeDisposable } = {};
+
+  /**
+   * @param onDidChange Called with the path of the file that changed
+   */
+  constructor(onDidChange: (filePath: string) => void) {
+    this.onDidChange = onDidChange;
+  }
+
+  /**
+   * Watch `filePaths`, and stop watching the other files.
+   * @param filePaths
+   */
+  public watch(filePaths: string[]) {
+    for (const filePath in this.subscriptions) {
+      if (
+        this.subscriptions.hasOwnProperty(filePath) &&
+        filePaths.indexOf(filePath) < 0
+      ) {
+        this.subscriptions[filePath].dispose();
+        delete this.subscriptions[filePath];
+      }
+    }
+    filePaths.forEach((filePath) => {
+      if (this.subscriptions.hasOwnProperty(filePath)) {
+        return;
+      }
+      const file = new File(filePath);
+      const callback = () => this.onDidChange(filePath);
+      this.subscriptions[filePath] = new CompositeDisposable(
+        file.onDidChange(callback),
+        file.onDidDelete(callback),
+        file.onDidRename(callback),
+      );
+    });
+  }
+
+  public dispose() {
+    this.watch([]);
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * Large-document mode.
+ *
+ * The source of a large document is prepared before it is parsed, without
+ * moving any line, so that the `data-line` of the preview still match:
+ * - the first render only keeps the sections around the visible range of
+ *   the editor, the other lines are blanked;
+ * - the diagrams and math blocks that weren't scrolled into view in the
+ *   preview yet are replaced by placeholders.
+ */
+
+/**
+ * Fenced code blocks of these languages are rendered as diagrams.
+ */
+const DIAGRAM_LANGUAGES = [
+  "mermaid",
+  "plantuml",
+  "puml",
+  "wavedrom",
+  "viz",
+  "dot",
+  "ditaa",
+  "vega",
+  "vega-lite",
+];
+
+/**
+ * Lines that the first render keeps above and below the visible range,
+ * in addition to the sections that contain it.
+ */
+const VIEWPORT_MARGIN = 50;
+
+const FENCE_REGEX = /^(\s*)(`{3,}|~{3,})\s*\{?\s*([\w-]*)/;
+const HEADING_REGEX = /^\s{0,3}#{1,6}(\s|$)/;
+
+/**
+ * A diagram or a math block.
+ */
+export interface HeavyBlock {
+  kind: "diagram" | "math";
+  /**
+   * First and last rows of the block.
+   */
+  start: number;
+  end: number;
+  /**
+   * The source of the block, which identifies it across edits.
+   */
+  source: string;
+}
+
+export interface LargeDocumentOptions {
+  /**
+   * `[opening, closing]` delimiters of math blocks.
+   */
+  mathBlockDelimiters: string[][];
+  /**
+   * Whether the heavy block was scrolled into view already.
+   */
+  isRevealed: (block: HeavyBlock) => boolean;
+  /**
+   * Only keep the sections around these rows, if set.
+   */
+  range?: [number, number];
+}
+
+export interface PreparedDocument {
+  text: string;
+  /**
+   * The rows that were kept, `[0, lineCount - 1]` without `range`.
+   */
+  startRow: number;
+  endRow: number;
+  /**
+   * The number of heavy blocks replaced by placeholders.
+   */
+  deferredBlockCount: number;
+}
+
+/**
+ * Get the last row of the front matter, or -1 if there is none.
+ * @param lines
+ */
+function getFrontMatterEnd(lines: string[]) {
+  if (!lines.length || lines[0].trim() !== "---") {
+    return -1;
+  }
+  for (let i = 1; i < lines.length; i++) {
+    if (/^(---|\.\.\.)\s*$/.test(lines[i])) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Find the fenced code blocks, math blocks and headings of the document.
+ * @param lines
+ * @param mathBlockDelimiters
+ */
+function scanDocument(lines: string[], mathBlockDelimiters: string[][]) {
+  const heavyBlocks: HeavyBlock[] = [];
+  const headingRows: number[] = [];
+  // blocks that can't be split: fences, math blocks and front matter
+  const blockRanges: Array<[number, number]> = [];
+
+  const frontMatterEnd = getFrontMatterEnd(lines);
+  if (frontMatterEnd >= 0) {
+    blockRanges.push([0, frontMatterEnd]);
+  }
+  for (let i = frontMatterEnd + 1; i < lines.length; i++) {
+    const line = lines[i];
+    const fence = line.match(FENCE_REGEX);
+    let end = -1;
+    let kind: HeavyBlock["kind"] = null;
+    if (fence) {
+      const closingRegex = new RegExp(
+        `^\\s*${fence[2][0]}{${fence[2].length},}\\s*$`,
+      );
+      end = lines.length - 1;
+      for (let j = i + 1; j < lines.length; j++) {
+        if (closingRegex.test(lines[j])) {
+          end = j;
+          break;
+        }
+      }
+      if (DIAGRAM_LANGUAGES.indexOf(fence[3].toLowerCase()) >= 0) {
+        kind = "diagram";
+      }
+    } else {
+      const trimmed = line.trim();
+      const delimiters = mathBlockDelimiters.filter(([opening]) =>
+        trimmed.startsWith(opening),
+      )[0];
+      if (delimiters) {
+        const [opening, closing] = delimiters;
+        const rest = trimmed.slice(opening.length);
+        if (rest.length >= closing.length && rest.endsWith(closing)) {
+          end = i;
+        } else {
+          for (let j = i + 1; j < lines.length; j++) {
+            if (lines[j].trim().endsWith(closing)) {
+              end = j;
+              break;
+            }
+          }
+        }
+        if (end >= 0) {
+          kind = "math";
+        }
+      } else if (HEADING_REGEX.test(line)) {
+        headingRows.push(i);
+      }
+    }
+
+    if (end >= 0) {
+      blockRanges.push([i, end]);
+      if (kind) {
+        heavyBlocks.push({
+          kind,
+          start: i,
+          end,
+          source: lines.slice(i, end + 1).join("\n"),
+        });
+      }
+      i = end;
+    }
+  }
+  return { heavyBlocks, headingRows, blockRanges, frontMatterEnd };
+}
+
+/**
+ * Find the heavy blocks of the document.
+ * @param lines
+ * @param mathBlockDelimiters
+ */
+export function findHeavyBlocks(
+  lines: string[],
+  mathBlockDelimiters: string[][],
+): HeavyBlock[] {
+  return scanDocument(lines, mathBlockDelimiters).heavyBlocks;
+}
+
+/**
+ * Prepare the source of a large document for the preview.
+ * @param lines
+ * @param options
+ */
+export function prepareLargeDocument(
+  lines: string[],
+  options: LargeDocumentOptions,
+): PreparedDocument {
+  const {
+    heavyBlocks,
+    headingRows,
+    blockRanges,
+    frontMatterEnd,
+  } = scanDocument(lines, options.mathBlockDelimiters);
+  const output = lines.slice();
+
+  let startRow = 0;
+  let endRow = lines.length - 1;
+  if (options.range) {
+    startRow = Math.max(0, options.range[0] - VIEWPORT_MARGIN);
+    endRow = Math.min(lines.length - 1, options.range[1] + VIEWPORT_MARGIN);
+    // extend to the sections, and to the blocks cut by the range
+    const previousHeadingRows = headingRows.filter((row) => row <= startRow);
+    if (previousHeadingRows.length) {
+      startRow = previousHeadingRows[previousHeadingRows.length - 1];
+    }
+    const nextHeadingRow = headingRows.filter((row) => row > endRow)[0];
+    endRow = nextHeadingRow ? nextHeadingRow - 1 : lines.length - 1;
+    blockRanges.forEach(([start, end]) => {
+      if (start < startRow && end >= startRow) {
+        startRow = start;
+      }
+      if (start <= endRow && end > endRow) {
+        endRow = end;
+      }
+    });
+    for (let i = frontMatterEnd + 1; i < lines.length; i++) {
+      if (i < startRow || i > endRow) {
+        output[i] = "";
+      }
+    }
+  }
+
+  let deferredBlockCount = 0;
+  heavyBlocks.forEach((block) => {
+    if (block.end < startRow || block.start > endRow) {
+      return;
+    }
+    if (options.isRevealed(block)) {
+      return;
+    }
+    deferredBlockCount++;
+    const indentation = lines[block.start].match(/^\s*/)[0];
+    output[
+      block.start
+    ] = `${indentation}<div class="mpe-deferred-block" data-line="${block.start}" data-mpe-kind="${block.kind}"></div>`;
+    for (let i = block.start + 1; i <= block.end; i++) {
+      output[i] = "";
+    }
+  });
+
+  return {
+    text: output.join("\n"),
+    startRow,
+    endRow,
+    deferredBlockCount,
+  };
+}
@@ -0,0 +1,122 @@
+import { TextEditor } from "atom";
+import * as path from "path";
+import { MarkdownPreviewEnhancedConfig } from "./config";
+
+/**
+ * The settings that decide which files and editors are markdown.
+ */
+type DetectionConfig = Pick<
+  MarkdownPreviewEnhancedConfig,
+  | "fileExtension"
+  | "markdownGrammarScopes"
+  | "markdownFileIncludes"
+  | "markdownFileExcludes"
+>;
+
+/**
+ * Convert the glob `pattern` to a regular expression.
+ * `**` matches any number of directories, `*` and `?` don't match `/`, and
+ * `{a,b}` matches either alternative.
+ * @param pattern
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  let inBraces = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      if (pattern[i + 2] === "/") {
+        // also matches no directory
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{" && !inBraces) {
+      source += "(?:";
+      inBraces = true;
+    } else if (char === "}" && inBraces) {
+      source += ")";
+      inBraces = false;
+    } else if (char === "," && inBraces) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|[\]\\{}]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check if the file at `filePath` matches one of the glob `patterns`.
+ * Patterns without a `/` match the file name, the others match the path
+ * relative to the project, or the absolute path outside of projects.
+ * @param filePath
+ * @param patterns
+ */
+function matchesGlobs(filePath: string, patterns: string[]): boolean {
+  if (!patterns.length) {
+    return false;
+  }
+  const relativePath = atom.project
+    .relativizePath(filePath)[1]
+    .split(path.sep)
+    .join("/");
+  const fileName = path.basename(filePath);
+  return patterns.some((pattern) =>
+    pattern.indexOf("/") < 0
+      ? globToRegExp(pattern).test(fileName)
+      : globToRegExp(pattern.replace(/^\//, "")).test(relativePath),
+  );
+}
+
+/**
+ * Check if the file at `filePath` is a markdown file: it has one of the
+ * `fileExtension` or matches `markdownFileIncludes`, and doesn't match
+ * `markdownFileExcludes`.
+ * @param filePath
+ * @param config
+ */
+export function isMarkdownFile(
+  filePath: string,
+  config: DetectionConfig,
+): boolean {
+  if (!filePath || filePath.startsWith("mpe://")) {
+    // no file, or a preview
+    return false;
+  } else if (matchesGlobs(filePath, config.markdownFileExcludes)) {
+    return false;
+  }
+  return (
+    config.fileExtension.indexOf(path.extname(filePath)) >= 0 ||
+    matchesGlobs(filePath, config.markdownFileIncludes)
+  );
+}
+
+/**
+ * Check if `editor` is a markdown editor: its file is a markdown file, or
+ * it uses one of the `markdownGrammarScopes`, such as an untitled buffer or
+ * a file set to a markdown grammar manually.
+ * Files that match `markdownFileExcludes` never are.
+ * @param editor
+ * @param config
+ */
+export function isMarkdownEditor(
+  editor: TextEditor,
+  config: DetectionConfig,
+): boolean {
+  const filePath = editor.getPath();
+  if (filePath && matchesGlobs(filePath, config.markdownFileExcludes)) {
+    return false;
+  }
+  const grammar = editor.getGrammar();
+  if (grammar && config.markdownGrammarScopes.indexOf(grammar.scopeName) >= 0) {
+    return true;
+  }
+  return isMarkdownFile(filePath, config);
+}
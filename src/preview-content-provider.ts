@@ -1,22 +1,140 @@
 import * as mume from "@shd101wyy/mume";
-import { CompositeDisposable, TextEditor } from "atom";
+import {
+  CompositeDisposable,
+  Disposable,
+  Emitter,
+  TextBuffer,
+  TextEditor,
+} from "atom";
 import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
-import { MarkdownPreviewEnhancedConfig } from "./config";
+import {
+  getChangedSettings,
+  getSettingsEffect,
+  MarkdownPreviewEnhancedConfig,
+} from "./config";
+import { reportConfigProblems } from "./config-report";
+import { EngineCache } from "./engine-cache";
+import { exportJobManager } from "./export-jobs";
+import { ExportFormat } from "./exporter";
+import { diffHTMLBlocks, splitHTMLBlocks } from "./html-patch";
+import {
+  findImportedFiles,
+  getImportPaths,
+  ImportWatcher,
+} from "./import-watcher";
+import {
+  findHeavyBlocks,
+  PreparedDocument,
+  prepareLargeDocument,
+} from "./large-document";
+import { applyProjectConfig, loadProjectConfig } from "./project-config";
+import { RenderRequest, RenderScheduler } from "./render-scheduler";
+import { getEditorLineAtRatio, scrollEditorToLine } from "./scroll-sync";
+import { getSourceRange, SourceTarget } from "./source-range";
+import { getDocumentViewState, setDocumentViewState } from "./view-state-store";
+import {
+  HostMessage,
+  MessageSchema,
+  parseWebviewMessage,
+  PROTOCOL_VERSION,
+  WEBVIEW_MESSAGE_SCHEMAS,
+  WebviewCommand,
+  WebviewMessageArgs,
+} from "./webview-protocol";
+import { getWebviewScriptHTML } from "./webview-script";
 
 /**
- * Key is editor.getPath()
+ * Key is the source uri of the previewed buffer, see `getSourceUri`.
  * Value is temp html file path.
+ * The files are removed when their previews are destroyed.
  */
-const HTML_FILES_MAP = {};
+const HTML_FILES_MAP: { [key: string]: string } = {};
 
 /**
- * Key is editor.getPath()
- * Value is MarkdownEngine
- * This data structure prevents MarkdownPreviewEnhancedView from creating
- * markdown engine for one file more than once.
+ * The markdown engines of the previewed files.
+ * This prevents MarkdownPreviewEnhancedView from creating markdown engine for
+ * one file more than once.
  */
-const MARKDOWN_ENGINES_MAP: { [key: string]: mume.MarkdownEngine } = {};
+const ENGINE_CACHE = new EngineCache({
+  isBound: (sourceUri) =>
+    atom.workspace
+      .getPaneItems()
+      .some(
+        (item) =>
+          item instanceof MarkdownPreviewEnhancedView &&
+          item.getBuffer() &&
+          MarkdownPreviewEnhancedView.getSourceUri(item.getBuffer()) ===
+            sourceUri,
+      ),
+  isOpen: (sourceUri) =>
+    atom.workspace
+      .getTextEditors()
+      .some(
+        (editor) =>
+          MarkdownPreviewEnhancedView.getSourceUri(editor.getBuffer()) ===
+          sourceUri,
+      ),
+});
+
+/**
+ * Keys of the problems of the messages from the webviews that were already
+ * shown to the user.
+ */
+const REPORTED_MESSAGE_PROBLEMS: { [key: string]: boolean } = {};
+
+/**
+ * Handles a message sent by the webview, called with the preview as `this`.
+ */
+export type MessageHandler = (
+  this: MarkdownPreviewEnhancedView,
+  sourceUri: string,
+  ...args: any[]
+) => void;
+
+/**
+ * The result of `engine.parseMD` that the preview uses.
+ */
+interface ParseResult {
+  html: string;
+  tocHTML: string;
+  JSAndCssFiles: string[];
+  yamlConfig: any;
+  /**
+   * Set in large-document mode.
+   */
+  largeDocument?: {
+    phase: "viewport" | "done";
+    prepared: PreparedDocument;
+  };
+}
+
+/**
+ * Emitted after the preview html was updated.
+ */
+export interface PreviewRenderEvent {
+  sourceUri: string;
+  html: string;
+  tocHTML: string;
+  totalLineCount: number;
+  yamlConfig: any;
+}
+
+/**
+ * Emitted when the preview scrolled, by the user or to follow the editor.
+ */
+export interface PreviewScrollEvent {
+  sourceUri: string;
+  /**
+   * The fractional source line that the preview is scrolled to.
+   */
+  line: number;
+  /**
+   * Where `line` is in the preview, 0 is the top and 1 the bottom.
+   */
+  topRatio: number;
+}
 
 /**
  * The markdown previewer
@@ -26,15 +144,40 @@ export class MarkdownPreviewEnhancedView {
   private webview = null;
   private uri: string = "";
   private disposables: CompositeDisposable = null;
+  /**
+   * The commands of the preview element, see `initPreviewEvents`.
+   */
+  private previewCommands: CompositeDisposable = null;
+  private emitter = new Emitter();
+
+  /**
+   * Handlers and schemas of the messages sent by the webview, by command.
+   * See `registerMessageHandler`.
+   */
+  private messageHandlers: { [command: string]: MessageHandler[] } = {};
+  private messageSchemas: { [command: string]: MessageSchema } = Object.assign(
+    {},
+    WEBVIEW_MESSAGE_SCHEMAS,
+  );
 
   /**
    * The editor binded to this preview.
+   * `null` for previews bound to a file path only, see `bindFile`.
    */
   private editor: TextEditor = null;
   /**
-   * Configs.
+   * The buffer of the previewed markdown file: the one of the editor, or
+   * one loaded from the file by `bindFile`.
+   */
+  private buffer: TextBuffer = null;
+  /**
+   * Configs, with the settings of the project config file applied.
    */
   private config: MarkdownPreviewEnhancedConfig = null;
+  /**
+   * Global configs from `atom.config`.
+   */
+  private globalConfig: MarkdownPreviewEnhancedConfig = null;
   /**
    * Markdown engine.
    */
@@ -44,11 +187,91 @@ export class MarkdownPreviewEnhancedView {
    */
   private JSAndCssFiles: string[];
 
+  /**
+   * The html shown by the webview, split into blocks, so that the next
+   * render only sends the changed ones.
+   * `null` if the next render needs a full update.
+   */
+  private renderedHTML: {
+    blocks: string[];
+    lineCount: number;
+    id: string;
+    class: string;
+  } = null;
+
+  /**
+   * The event of the last render, see `getLastRender`.
+   */
+  private lastRender: PreviewRenderEvent = null;
+
+  /**
+   * Large-document mode: the sources of the diagrams and math blocks that
+   * were scrolled into view in the preview, and whether the whole document
+   * was shown since the webview was (re)loaded.
+   */
+  private revealedBlocks = new Set<string>();
+  private largeDocumentShown: boolean = false;
+
+  /**
+   * Watches the files imported by the last render.
+   */
+  private importWatcher = new ImportWatcher((filePath) =>
+    this.importedFileDidChange(filePath),
+  );
+
+  /**
+   * The paths imported by the document when the imported files were last
+   * looked up, joined by newlines.
+   */
+  private importPathsKey: string = null;
+
+  private renderScheduler = new RenderScheduler<ParseResult>({
+    render: (request) => this.parseMarkdownForPreview(request),
+    apply: (result) => this.applyRender(result),
+  });
+
+  /**
+   * Scroll events of the editor are ignored until this time, so that the
+   * scrolls caused by the preview are not synced back to it.
+   * It is `Infinity` while the editor scroll animation runs.
+   */
   private editorScrollDelay: number = Date.now();
-  private scrollTimeout = null;
+  /**
+   * Stops the running editor scroll animation.
+   */
+  private stopEditorScroll: () => void = null;
 
   private zoomLevel: number = 1;
 
+  /**
+   * The source line that the preview was last scrolled to,
+   * and where it is in the preview (0 is the top and 1 the bottom).
+   */
+  private previewLine: number = 0;
+  private previewTopRatio: number = 0;
+
+  /**
+   * Set by `loadPreview`.
+   * The preview is scrolled back to this line once the reloaded webview
+   * finished rendering.
+   */
+  private lineToRestore: number = null;
+
+  /**
+   * The path of the markdown file the restored preview was bound to.
+   * The preview waits for an editor of this file to come back, or is bound
+   * to the file again by `bindRestoredFile` if it was bound to the file only.
+   */
+  private restoredFilePath: string = null;
+  private restoredFileOnly: boolean = false;
+
+  /**
+   * The keys of `HTML_FILES_MAP` of the files that this preview showed.
+   */
+  private htmlFileKeys: string[] = [];
+
+  private destroyed: boolean = false;
+
   // tslint:disable-next-line:variable-name
   private _webviewDOMReady: boolean = false;
 
@@ -58,6 +281,14 @@ export class MarkdownPreviewEnhancedView {
   constructor(uri: string, config: MarkdownPreviewEnhancedConfig) {
     this.uri = uri;
     this.config = config;
+    this.globalConfig = config;
+
+    const dispatchEvents = MarkdownPreviewEnhancedView.MESSAGE_DISPATCH_EVENTS;
+    for (const command in dispatchEvents) {
+      if (dispatchEvents.hasOwnProperty(command)) {
+        this.messageHandlers[command] = [dispatchEvents[command]];
+      }
+    }
 
     this.element = document.createElement("div");
 
@@ -119,10 +350,75 @@ export class MarkdownPreviewEnhancedView {
     let fileName = "unknown";
     if (this.editor) {
       fileName = this.editor["getFileName"]();
+    } else if (this.buffer && this.buffer.getPath()) {
+      fileName = path.basename(this.buffer.getPath());
+    } else if (this.buffer) {
+      fileName = "untitled";
+    } else if (this.restoredFilePath) {
+      fileName = path.basename(this.restoredFilePath);
     }
     return `${fileName} preview`;
   }
 
+  /**
+   * Serialize the preview, so that it can be restored by
+   * `deserializePreview` in extension.ts after Atom restarts.
+   * The pane that contains the preview is restored by Atom itself.
+   * Previews of untitled buffers have no `filePath`, and are not restored.
+   */
+  public serialize() {
+    const filePath = this.buffer
+      ? this.buffer.getPath()
+      : this.restoredFilePath;
+    return {
+      deserializer: "MarkdownPreviewEnhancedView",
+      uri: this.uri,
+      filePath,
+      fileOnly: this.buffer ? !this.editor : this.restoredFileOnly,
+      zoomLevel: this.zoomLevel,
+      previewLine: this.previewLine,
+      previewTopRatio: this.previewTopRatio,
+    };
+  }
+
+  /**
+   * Restore the state returned by `serialize`.
+   * The preview is bound to the markdown editor later by `bindEditor`,
+   * or to the file by `bindRestoredFile`.
+   * @param state
+   */
+  public restoreState(state: {
+    filePath: string;
+    fileOnly?: boolean;
+    zoomLevel: number;
+    previewLine: number;
+    previewTopRatio: number;
+  }) {
+    this.restoredFilePath = state.filePath;
+    this.restoredFileOnly = !!state.fileOnly;
+    setDocumentViewState(state.filePath, {
+      zoomLevel: state.zoomLevel || 1,
+      previewLine: state.previewLine || 0,
+      previewTopRatio: state.previewTopRatio || 0,
+    });
+  }
+
+  /**
+   * Get the path of the markdown file that the restored preview waits for.
+   * Returns `null` once the preview is bound to an editor or to the file.
+   */
+  public getRestoredFilePath() {
+    return this.restoredFilePath;
+  }
+
+  /**
+   * Get the path of the previewed markdown file, or of the file that the
+   * restored preview waits for.
+   */
+  public getFilePath() {
+    return this.buffer ? this.buffer.getPath() : this.restoredFilePath;
+  }
+
   private updateTabTitle() {
     if (!this.config.singlePreview) {
       return;
@@ -150,20 +446,50 @@ export class MarkdownPreviewEnhancedView {
     // reset
     this.JSAndCssFiles = [];
 
+    // load project config
+    const projectDirectoryPath = this.getProjectDirectoryPath();
+    try {
+      await loadProjectConfig(projectDirectoryPath);
+    } catch (error) {
+      atom.notifications.addError(error.toString());
+    }
+    this.config = applyProjectConfig(this.globalConfig, projectDirectoryPath);
+    reportConfigProblems(this.config);
+
+    // restore zoom level and scroll position of this document
+    const sourceUri = MarkdownPreviewEnhancedView.getSourceUri(this.buffer);
+    const viewState = getDocumentViewState(sourceUri);
+    if (viewState) {
+      this.zoomLevel = viewState.zoomLevel;
+      this.previewLine = viewState.previewLine;
+      this.previewTopRatio = viewState.previewTopRatio;
+    } else {
+      this.zoomLevel = 1;
+      this.previewLine = this.editor
+        ? this.editor.getCursorBufferPosition().row
+        : 0;
+      this.previewTopRatio = 0;
+    }
+
     // init markdown engine
-    if (this.editor.getPath() in MARKDOWN_ENGINES_MAP) {
-      this.engine = MARKDOWN_ENGINES_MAP[this.editor.getPath()];
+    if (ENGINE_CACHE.has(sourceUri)) {
+      this.engine = ENGINE_CACHE.get(sourceUri);
     } else {
       this.engine = new mume.MarkdownEngine({
-        filePath: this.editor.getPath(),
-        projectDirectoryPath: this.getProjectDirectoryPath(),
+        filePath: this.getDocumentPath(),
+        projectDirectoryPath,
         config: this.config,
       });
-      MARKDOWN_ENGINES_MAP[this.editor.getPath()] = this.engine;
+      ENGINE_CACHE.set(sourceUri, this.engine);
+      ENGINE_CACHE.evict(this.globalConfig.markdownEngineCacheSize);
     }
 
     await this.loadPreview();
-    this.initEditorEvents();
+    if (this.editor) {
+      this.initEditorEvents();
+    } else {
+      this.initFileEvents();
+    }
     this.initPreviewEvents();
   }
 
@@ -174,6 +500,76 @@ export class MarkdownPreviewEnhancedView {
     return this.editor;
   }
 
+  /**
+   * Get the buffer of the previewed markdown file, which is the one of the
+   * editor if the preview is bound to an editor.
+   */
+  public getBuffer() {
+    return this.buffer;
+  }
+
+  /**
+   * Get the markdown engine of the bound editor.
+   */
+  public getEngine() {
+    return this.engine;
+  }
+
+  /**
+   * Get the html of the last render, or `null` before the first one.
+   */
+  public getLastRender(): PreviewRenderEvent {
+    return this.lastRender;
+  }
+
+  /**
+   * Invoke `callback` after the preview html was updated.
+   * @param callback
+   */
+  public onDidRender(
+    callback: (event: PreviewRenderEvent) => void,
+  ): Disposable {
+    return this.emitter.on("did-render", callback);
+  }
+
+  /**
+   * Invoke `callback` when the preview scrolled.
+   * @param callback
+   */
+  public onDidScroll(
+    callback: (event: PreviewScrollEvent) => void,
+  ): Disposable {
+    return this.emitter.on("did-scroll", callback);
+  }
+
+  /**
+   * Invoke `callback` when the preview is destroyed.
+   * @param callback
+   */
+  public onDidDestroy(callback: () => void): Disposable {
+    return this.emitter.on("did-destroy", callback);
+  }
+
+  /**
+   * Invoke `callback` with the new title, for the tab of the preview.
+   * @param callback
+   */
+  public onDidChangeTitle(callback: (title: string) => void): Disposable {
+    return this.emitter.on("did-change-title", callback);
+  }
+
+  /**
+   * Invoke `callback` with the new source uri, once the editor was saved to
+   * another path, such as an untitled buffer that was saved for the first
+   * time.
+   * @param callback
+   */
+  public onDidChangeSourceUri(
+    callback: (sourceUri: string) => void,
+  ): Disposable {
+    return this.emitter.on("did-change-source-uri", callback);
+  }
+
   /**
    * Get markdown engine
    */
@@ -183,52 +579,114 @@ export class MarkdownPreviewEnhancedView {
 
   /**
    * Bind editor to preview
+   * A preview that was bound to the file only switches to the editor.
    * @param editor
    */
   public bindEditor(editor: TextEditor) {
-    if (!this.editor) {
-      this.editor = editor; // this has to be put here, otherwise the tab title will be `unknown`
-
-      let previewPosition = this.config.previewPanePosition;
-      if (previewPosition === "center") {
-        previewPosition = undefined;
-      } else if (
-        previewPosition === "left" &&
-        atom.workspace.getCenter().getPanes().length === 1
-      ) {
-        const pane = atom.workspace.getActivePane();
-        pane.splitLeft();
-        pane.activate();
-      } else if (
-        previewPosition === "up" &&
-        atom.workspace.getCenter().getPanes().length === 1
-      ) {
-        const pane = atom.workspace.getActivePane();
-        pane.splitUp();
-        pane.activate();
-      }
-
-      atom.workspace
-        .open(this.uri, {
-          split: previewPosition as any, // left | right | up | down
-          activatePane: false,
-          activateItem: true, // <= this has to be true otherwise the webview will throw an error.
-          searchAllPanes: false,
-          initialLine: 0,
-          initialColumn: 0,
-          pending: false,
-        })
-        .then(() => {
-          this.activatePaneForEditor();
-          this.initEvents();
-        });
+    this.restoredFilePath = null;
+    this.restoredFileOnly = false;
+    if (!this.buffer && !atom.workspace.paneForItem(this)) {
+      this.setSource(editor, editor.getBuffer()); // this has to be put here, otherwise the tab title will be `unknown`
+      this.openPreviewPane().then(() => {
+        this.activatePaneForEditor();
+        this.initEvents();
+      });
     } else {
-      // preview already on
-      this.editor = editor;
+      // preview already on, restored in its pane, or bound to the file only
+      this.setSource(editor, editor.getBuffer());
       this.initEvents();
     }
   }
 
+  /**
+   * Bind the markdown file at `filePath` to preview, without an editor.
+   * The buffer loaded from the file reloads when the file is changed by
+   * other programs, and the preview is rendered again.
+   * Once an editor of the file is opened, `bindEditor` binds it instead.
+   * @param filePath
+   */
+  public async bindFile(filePath: string) {
+    let buffer: TextBuffer;
+    try {
+      buffer = await TextBuffer.load(filePath);
+    } catch (error) {
+      atom.notifications.addError(error.toString());
+      return;
+    }
+    if (this.destroyed || (this.editor && this.editor.getPath() === filePath)) {
+      // an editor of the file was bound while the file was loading
+      buffer.destroy();
+      return;
+    }
+
+    this.restoredFilePath = null;
+    this.restoredFileOnly = false;
+    const inPane = !!atom.workspace.paneForItem(this);
+    this.setSource(null, buffer); // before the pane is opened, for the tab title
+    if (!inPane) {
+      await this.openPreviewPane();
+    }
+    this.initEvents();
+  }
+
+  /**
+   * Bind the restored preview to its file again, if it was bound to the
+   * file only when it was serialized.
+   */
+  public bindRestoredFile() {
+    if (this.restoredFilePath && this.restoredFileOnly) {
+      this.bindFile(this.restoredFilePath);
+    }
+  }
+
+  /**
+   * Set the editor and the buffer of the previewed file.
+   * A buffer that `bindFile` loaded is destroyed once it isn't used anymore.
+   * @param editor
+   * @param buffer
+   */
+  private setSource(editor: TextEditor, buffer: TextBuffer) {
+    if (this.buffer && !this.editor && this.buffer !== buffer) {
+      this.buffer.destroy();
+    }
+    this.editor = editor;
+    this.buffer = buffer;
+  }
+
+  /**
+   * Open the preview in a pane, at `previewPanePosition`.
+   */
+  private openPreviewPane() {
+    let previewPosition = this.config.previewPanePosition;
+    if (previewPosition === "center") {
+      previewPosition = undefined;
+    } else if (
+      previewPosition === "left" &&
+      atom.workspace.getCenter().getPanes().length === 1
+    ) {
+      const pane = atom.workspace.getActivePane();
+      pane.splitLeft();
+      pane.activate();
+    } else if (
+      previewPosition === "up" &&
+      atom.workspace.getCenter().getPanes().length === 1
+    ) {
+      const pane = atom.workspace.getActivePane();
+      pane.splitUp();
+      pane.activate();
+    }
+
+    return atom.workspace.open(this.uri, {
+      split: previewPosition as any, // left | right | up | down
+      activatePane: false,
+      activateItem: true, // <= this has to be true otherwise the webview will throw an error.
+      searchAllPanes: false,
+      initialLine: 0,
+      initialColumn: 0,
+      pending: false,
+    });
+  }
+
   /**
    * This function will
    * 1. Create a temp *.html file
@@ -236,34 +694,43 @@ export class MarkdownPreviewEnhancedView {
    * 3. this.webview will load that *.html file.
    */
   public async loadPreview() {
-    const editorFilePath = this.editor.getPath();
+    const sourceUri = MarkdownPreviewEnhancedView.getSourceUri(this.buffer);
     this.postMessage({ command: "startParsingMarkdown" });
+    this.renderedHTML = null;
+    this.largeDocumentShown = false;
 
     // create temp html file for preview
     let htmlFilePath;
-    if (editorFilePath in HTML_FILES_MAP) {
-      htmlFilePath = HTML_FILES_MAP[editorFilePath];
+    if (sourceUri in HTML_FILES_MAP) {
+      htmlFilePath = HTML_FILES_MAP[sourceUri];
     } else {
       const info = await mume.utility.tempOpen({
         prefix: "mpe_preview",
         suffix: ".html",
       });
       htmlFilePath = info.path;
-      HTML_FILES_MAP[editorFilePath] = htmlFilePath;
+      HTML_FILES_MAP[sourceUri] = htmlFilePath;
+    }
+    if (this.htmlFileKeys.indexOf(sourceUri) < 0) {
+      this.htmlFileKeys.push(sourceUri);
     }
 
     // load preview template
     const html = await this.engine.generateHTMLTemplateForPreview({
-      inputString: this.editor.getText(),
+      inputString: this.buffer.getText(),
       config: {
-        sourceUri: this.editor.getPath(),
-        initialLine: this.editor.getCursorBufferPosition().row,
+        sourceUri,
+        initialLine: this.previewLine,
         zoomLevel: this.zoomLevel,
+        // scroll sync is done by our webview script.
+        scrollSync: false,
       },
-      head: "", // <base url=""> will cause mermaid not able to render arrow.
+      // <base url=""> will cause mermaid not able to render arrow.
+      head: getWebviewScriptHTML({ sourceUri }),
       // webviewScript: path.resolve(__dirname, './webview.js') // NVM, use default `mume` webview script.
     });
     await mume.utility.writeFile(htmlFilePath, html, { encoding: "utf-8" });
+    this.lineToRestore = this.previewLine;
 
     // load to webview
     await this.waitUtilWebviewDOMReady();
@@ -304,21 +771,111 @@ export class MarkdownPreviewEnhancedView {
 
   /**
    * Received message from webview.
+   * Messages that don't match the schema of their command, or whose command
+   * is unknown, are reported once per command and dropped.
    * @param event
    */
   private webviewReceiveMessage(event) {
-    const data = event.args[0].data;
-    const command = data["command"];
-    const args = data["args"];
-    if (command in MarkdownPreviewEnhancedView.MESSAGE_DISPATCH_EVENTS) {
-      MarkdownPreviewEnhancedView.MESSAGE_DISPATCH_EVENTS[command].apply(
-        this,
-        args,
+    const data = event.args[0] && event.args[0].data;
+    let message;
+    try {
+      message = parseWebviewMessage(data, (command) =>
+        this.messageSchemas.hasOwnProperty(command)
+          ? this.messageSchemas[command]
+          : undefined,
+      );
+    } catch (error) {
+      return MarkdownPreviewEnhancedView.reportMessageProblem(
+        error.message,
+        `command:${data && typeof data === "object" ? data.command : ""}`,
+      );
+    }
+    const handlers = (this.messageHandlers[message.command] || []).slice();
+    const args = [message.sourceUri].concat(message.args);
+    for (let i = 0; i < handlers.length; i++) {
+      handlers[i].apply(this, args);
+    }
+  }
+
+  /**
+   * Show a warning about a message from the webview, once per `key`.
+   * @param problem
+   * @param key Default is `problem`
+   */
+  private static reportMessageProblem(problem: string, key: string = problem) {
+    if (!REPORTED_MESSAGE_PROBLEMS[key]) {
+      REPORTED_MESSAGE_PROBLEMS[key] = true;
+      atom.notifications.addWarning(problem, { dismissable: true });
+    }
+  }
+
+  /**
+   * Handle the messages of `command` sent by the webview, in addition to
+   * the handlers of `MESSAGE_DISPATCH_EVENTS`.
+   * `schema` is required for a command that isn't known yet, and must be
+   * omitted otherwise.
+   * @param command
+   * @param handler Called with the preview as `this`
+   * @param schema The arguments of the message, after `sourceUri`
+   */
+  public registerMessageHandler(
+    command: string,
+    handler: MessageHandler,
+    schema?: MessageSchema,
+  ): Disposable {
+    if (this.messageSchemas.hasOwnProperty(command)) {
+      if (schema) {
+        throw new Error(`Message \`${command}\` already has a schema`);
+      }
+    } else if (!schema) {
+      throw new Error(`Missing the schema of message \`${command}\``);
+    } else {
+      this.messageSchemas[command] = schema;
+    }
+    this.messageHandlers[command] = (
+      this.messageHandlers[command] || []
+    ).concat(handler);
+
+    return new Disposable(() => {
+      const handlers = (this.messageHandlers[command] || []).filter(
+        (h) => h !== handler,
+      );
+      this.messageHandlers[command] = handlers;
+      // forget the commands that were added by the registered handlers
+      if (
+        !handlers.length &&
+        !WEBVIEW_MESSAGE_SCHEMAS.hasOwnProperty(command)
+      ) {
+        delete this.messageHandlers[command];
+        delete this.messageSchemas[command];
+      }
+    });
+  }
+
+  /**
+   * The webview script started, and told the version of its protocol.
+   * @param version
+   */
+  private webviewHandshake(version: number) {
+    if (version !== PROTOCOL_VERSION) {
+      MarkdownPreviewEnhancedView.reportMessageProblem(
+        `The preview uses version ${version} of the message protocol ` +
+          `instead of ${PROTOCOL_VERSION}. Please refresh the preview.`,
       );
     }
+    this.postMessage({ command: "mpeHandshake", version: PROTOCOL_VERSION });
   }
 
-  public static MESSAGE_DISPATCH_EVENTS = {
+  public static MESSAGE_DISPATCH_EVENTS: {
+    [C in WebviewCommand]: (
+      this: MarkdownPreviewEnhancedView,
+      sourceUri: string,
+      ...args: WebviewMessageArgs[C]
+    ) => void;
+  } = {
+    mpeHandshake(sourceUri, version) {
+      this.webviewHandshake(version);
+    },
     webviewFinishLoading(sourceUri) {
       /**
        * This event does nothing now, because the preview backgroundIframe
@@ -331,7 +888,36 @@ export class MarkdownPreviewEnhancedView {
       this.refreshPreview();
     },
     revealLine(sourceUri, line) {
-      this._scrollToBufferPosition(line);
+      // the revealed line is in the center of the preview
+      this.setPreviewLine(line, 0.5);
+      this.scrollEditorToLine(line, 0.5);
+    },
+    mpeDidScroll(sourceUri, line, topRatio) {
+      this.setPreviewLine(line, topRatio);
+      if (this.config.scrollSync) {
+        this.scrollEditorToLine(line, topRatio);
+      }
+    },
+    mpeSelectSource(sourceUri, target: SourceTarget) {
+      if (!this.editor) {
+        return;
+      }
+      const range = getSourceRange(this.editor.getBuffer().getLines(), target);
+      if (!range) {
+        return;
+      }
+      this.activatePaneForEditor();
+      this.editor.setSelectedBufferRange(range, { autoscroll: false } as any);
+      // keep the source next to where the element is in the preview
+      this.scrollEditorToLine(range.start.row, target.topRatio);
+    },
+    mpeRequestFullUpdate(sourceUri) {
+      // the preview doesn't match the blocks it was sent
+      this.renderedHTML = null;
+      this.renderMarkdown();
+    },
+    mpeRevealBlocks(sourceUri, lines) {
+      this.revealBlocks(lines);
     },
     insertImageUrl(sourceUri, imageUrl) {
       if (this.editor) {
@@ -418,7 +1004,7 @@ export class MarkdownPreviewEnhancedView {
       if (!editor) {
         return;
       }
-      const buffer = editor.buffer;
+      const buffer = editor.getBuffer();
       if (!buffer) {
         return;
       }
@@ -452,45 +1038,26 @@ export class MarkdownPreviewEnhancedView {
     // console.log("webview: ", event.message);
   }
 
-  private webviewKeyDown(event) {
-    let found = false;
-    if (event.shiftKey && event.ctrlKey && event.which === 83) {
-      // ctrl+shift+s preview sync source
-      found = true;
-      return this.postMessage({ command: "previewSyncSource" });
-    } else if (event.metaKey || event.ctrlKey) {
-      // ctrl+c copy
-      if (event.which === 67) {
-        // [c] copy
-        found = true;
-        this.postMessage({ command: "copy" });
-      } else if (event.which === 187) {
-        // [+] zoom in
-        found = true;
-        this.postMessage({ command: "zommIn" });
-      } else if (event.which === 189) {
-        // [-] zoom out
-        found = true;
-        this.postMessage({ command: "zoomOut" });
-      } else if (event.which === 48) {
-        // [0] reset zoom
-        found = true;
-        this.postMessage({ command: "resetZoom" });
-      } else if (event.which === 38) {
-        // [ArrowUp] scroll to the most top
-        found = true;
-        this.postMessage({ command: "scrollPreviewToTop" });
-      }
-    } else if (event.which === 27) {
-      // [esc] toggle sidebar toc
-      found = true;
-      this.postMessage({ command: "escPressed" });
-    }
-
-    if (found) {
-      event.preventDefault();
-      event.stopPropagation();
+  /**
+   * Key events of the webview don't reach the keymap of atom, so the
+   * keystroke is looked up here and the bound preview command is dispatched.
+   * Keystrokes bound to other commands are left to atom.
+   * @param event
+   */
+  private webviewKeyDown(event: KeyboardEvent) {
+    const bindings = atom.keymaps.findKeyBindings({
+      keystrokes: atom.keymaps.keystrokeForKeyboardEvent(event),
+      target: this.element,
+    });
+    if (
+      !bindings.length ||
+      bindings[0].command.indexOf("markdown-preview-enhanced:") !== 0
+    ) {
+      return;
     }
+    atom.commands.dispatch(this.element, bindings[0].command);
+    event.preventDefault();
+    event.stopPropagation();
   }
 
   private initEditorEvents() {
@@ -499,7 +1066,7 @@ export class MarkdownPreviewEnhancedView {
     this.disposables.add(
       atom.commands.add(editorElement, {
         "markdown-preview-enhanced:sync-preview": () => {
-          this.syncPreview(true);
+          this.syncPreview();
         },
       }),
     );
@@ -510,7 +1077,7 @@ export class MarkdownPreviewEnhancedView {
           this.disposables.dispose();
           this.disposables = null;
         }
-        this.editor = null;
+        this.setSource(null, null);
 
         if (
           !this.config.singlePreview &&
@@ -522,6 +1089,12 @@ export class MarkdownPreviewEnhancedView {
       }),
     );
 
+    this.disposables.add(
+      this.editor.onDidChangePath(() => {
+        this.editorDidChangePath();
+      }),
+    );
+
     this.disposables.add(
       this.editor.onDidStopChanging(() => {
         if (this.config.liveUpdate) {
@@ -547,40 +1120,72 @@ export class MarkdownPreviewEnhancedView {
         this.syncPreview();
       }),
     );
+  }
 
-    this.disposables.add(
-      this.editor.onDidChangeCursorPosition((event) => {
-        if (!this.config.scrollSync) {
-          return;
-        }
-        if (Date.now() < this.editorScrollDelay) {
-          return;
-        }
+  /**
+   * The editor was saved to another path, such as an untitled buffer that
+   * was saved for the first time. The preview moves over to the new path,
+   * with the engine of that file.
+   */
+  private editorDidChangePath() {
+    const sourceUri = MarkdownPreviewEnhancedView.getSourceUri(this.buffer);
+    if (!this.globalConfig.singlePreview) {
+      this.uri = "mpe://" + sourceUri;
+    }
+    this.emitter.emit("did-change-title", this.getTitle());
+    this.emitter.emit("did-change-source-uri", sourceUri);
+    this.initEvents();
+    MarkdownPreviewEnhancedView.releaseUnusedEngines();
+  }
 
-        const screenRow = event.newScreenPosition.row;
-        const firstVisibleScreenRow = this.editor["getFirstVisibleScreenRow"]();
-        const lastVisibleScreenRow = this.editor["getLastVisibleScreenRow"]();
-        const topRatio =
-          (screenRow - firstVisibleScreenRow) /
-          (lastVisibleScreenRow - firstVisibleScreenRow);
-
-        this.postMessage({
-          command: "changeTextEditorSelection",
-          line: event.newBufferPosition.row,
-          topRatio,
-        });
+  /**
+   * Events of the buffer loaded by `bindFile`.
+   * It reloads when the file is changed by other programs.
+   */
+  private initFileEvents() {
+    this.disposables.add(
+      this.buffer.onDidReload(() => {
+        this.renderMarkdown();
       }),
     );
   }
 
+  /**
+   * Preview commands.
+   * Their default keybindings are in `keymaps/markdown-preview-enhanced.cson`.
+   * They are added once and kept until the preview is destroyed, also when
+   * the preview is no longer bound to an editor.
+   */
   private initPreviewEvents() {
-    // as esc key doesn't work in atom,
-    // I created command.
-    this.disposables.add(
+    if (this.previewCommands) {
+      return;
+    }
+    this.previewCommands = new CompositeDisposable(
       atom.commands.add(this.element, {
-        "markdown-preview-enhanced:esc-pressed": () => {
-          // tslint:disable-next-line:no-console
-          console.log("esc pressed");
+        "markdown-preview-enhanced:zoom-in": () => {
+          this.postMessage({ command: "zommIn" });
+        },
+        "markdown-preview-enhanced:zoom-out": () => {
+          this.postMessage({ command: "zoomOut" });
+        },
+        "markdown-preview-enhanced:reset-zoom": () => {
+          this.postMessage({ command: "resetZoom" });
+        },
+        "markdown-preview-enhanced:scroll-to-top": () => {
+          this.postMessage({ command: "scrollPreviewToTop" });
+        },
+        "markdown-preview-enhanced:sync-source": () => {
+          this.postMessage({ command: "previewSyncSource" });
+        },
+        "markdown-preview-enhanced:toggle-sidebar-toc": () => {
+          // also closes the find bar first
+          this.postMessage({ command: "escPressed" });
+        },
+        "markdown-preview-enhanced:copy": () => {
+          this.postMessage({ command: "copy" });
+        },
+        "markdown-preview-enhanced:find-in-preview": () => {
+          this.postMessage({ command: "mpeFind" });
         },
       }),
     );
@@ -588,157 +1193,385 @@ export class MarkdownPreviewEnhancedView {
 
   /**
    * sync preview to match source.
-   * @param forced whether to override scroll sync.
+   * The source line at the top of the editor is scrolled to the top of the
+   * preview, and the ends of both are kept aligned.
+   * @param animate
    */
-  private syncPreview(forced = false) {
+  private syncPreview(animate = true) {
     if (!this.editor) {
       return;
     }
 
-    const firstVisibleScreenRow = this.editor["getFirstVisibleScreenRow"]();
-    if (firstVisibleScreenRow === 0) {
-      return this.postMessage({
-        command: "changeTextEditorSelection",
-        line: 0,
-        topRatio: 0,
-        forced,
-      });
+    const editorElement = this.editor["getElement"]();
+    if (
+      editorElement.getScrollTop() > 0 &&
+      editorElement.getScrollBottom() >= editorElement.getScrollHeight() - 1
+    ) {
+      return this.scrollPreviewToLine(this.editor.getLineCount(), 1, animate);
     }
+    this.scrollPreviewToLine(getEditorLineAtRatio(this.editor, 0), 0, animate);
+  }
 
-    const lastVisibleScreenRow = this.editor["getLastVisibleScreenRow"]();
-    if (lastVisibleScreenRow === this.editor.getLastScreenRow()) {
-      return this.postMessage({
-        command: "changeTextEditorSelection",
-        line: this.editor.getLastBufferRow(),
-        topRatio: 1,
-        forced,
+  /**
+   * Remember the position that the preview is scrolled to.
+   * @param line
+   * @param topRatio
+   */
+  private setPreviewLine(line: number, topRatio: number) {
+    this.previewLine = line;
+    this.previewTopRatio = topRatio;
+    if (this.buffer) {
+      const sourceUri = MarkdownPreviewEnhancedView.getSourceUri(this.buffer);
+      setDocumentViewState(sourceUri, {
+        previewLine: line,
+        previewTopRatio: topRatio,
+      });
+      this.emitter.emit("did-scroll", {
+        sourceUri,
+        line,
+        topRatio,
       });
     }
+  }
 
-    const midBufferRow = this.editor["bufferRowForScreenRow"](
-      Math.floor((lastVisibleScreenRow + firstVisibleScreenRow) / 2),
-    );
-
+  /**
+   * Scroll the preview so that the fractional source `line` is at `topRatio`
+   * of the preview height.
+   * @param line
+   * @param topRatio
+   * @param animate
+   */
+  private scrollPreviewToLine(line: number, topRatio: number, animate = true) {
+    this.setPreviewLine(line, topRatio);
     this.postMessage({
-      command: "changeTextEditorSelection",
-      line: midBufferRow,
-      topRatio: 0.5,
-      forced,
+      command: "mpeScrollToLine",
+      line,
+      topRatio,
+      animate,
     });
   }
 
   /**
-   * Render markdown
+   * Render markdown.
+   * Renders requested in a burst are merged, see `RenderScheduler`.
+   * Resolves once the preview shows the render, or the render was dropped
+   * because a newer one was shown first.
+   * @param triggeredBySave
    */
-  public renderMarkdown(triggeredBySave: boolean = false) {
-    if (!this.editor || !this.engine) {
-      return;
+  public renderMarkdown(triggeredBySave: boolean = false): Promise<void> {
+    if (!this.buffer || !this.engine) {
+      return Promise.resolve();
     }
 
     // presentation mode
     if (this.engine.isPreviewInPresentationMode) {
+      this.renderScheduler.cancel();
       return this.loadPreview(); // restart preview.
     }
 
-    // not presentation mode
-    const text = this.editor.getText();
+    return this.renderScheduler.schedule(triggeredBySave).then(() => {
+      return;
+    });
+  }
 
+  /**
+   * Parse the text of the buffer, for the render scheduler.
+   * Resolves with `null` if the preview isn't bound to a file anymore.
+   * @param request
+   */
+  private parseMarkdownForPreview(
+    request: RenderRequest,
+  ): Promise<ParseResult> {
+    if (!this.buffer || !this.engine) {
+      return Promise.resolve(null);
+    }
     // notice webview that we started parsing markdown
     this.postMessage({ command: "startParsingMarkdown" });
 
-    this.engine
-      .parseMD(text, {
+    if (this.isLargeDocument()) {
+      return this.parseLargeDocument(request);
+    }
+    return this.engine.parseMD(this.buffer.getText(), {
+      isForPreview: true,
+      useRelativeFilePath: false,
+      hideFrontMatter: false,
+      triggeredBySave: request.triggeredBySave,
+    });
+  }
+
+  private isLargeDocument() {
+    const lineCount = this.config.largeDocumentLineCount;
+    return lineCount > 0 && this.buffer.getLineCount() > lineCount;
+  }
+
+  /**
+   * Parse a large document, see large-document.ts.
+   * Until the whole document was shown, the sections around the visible
+   * range of the editor, or around the preview line without an editor, are
+   * parsed and shown first.
+   * @param request
+   */
+  private async parseLargeDocument(
+    request: RenderRequest,
+  ): Promise<ParseResult> {
+    const lines = this.buffer.getLines();
+    const options = {
+      mathBlockDelimiters: this.config.mathBlockDelimiters,
+      isRevealed: (block) => this.revealedBlocks.has(block.source),
+    };
+    const parse = (source: PreparedDocument) =>
+      this.engine.parseMD(source.text, {
         isForPreview: true,
         useRelativeFilePath: false,
         hideFrontMatter: false,
-        triggeredBySave,
-      })
-      .then(({ markdown, html, tocHTML, JSAndCssFiles, yamlConfig }) => {
-        if (
-          !mume.utility.isArrayEqual(JSAndCssFiles, this.JSAndCssFiles) ||
-          yamlConfig["isPresentationMode"]
-        ) {
-          this.JSAndCssFiles = JSAndCssFiles;
-          this.loadPreview(); // restart preview
-        } else {
-          this.postMessage({
-            command: "updateHTML",
-            html,
-            tocHTML,
-            totalLineCount: this.editor.getLineCount(),
-            sourceUri: this.editor.getPath(),
-            id: yamlConfig.id || "",
-            class: yamlConfig.class || "",
-          });
-        }
+        triggeredBySave: request.triggeredBySave,
+      });
+
+    if (!this.largeDocumentShown) {
+      const viewport = prepareLargeDocument(lines, {
+        ...options,
+        range: this.editor
+          ? [
+              Math.floor(getEditorLineAtRatio(this.editor, 0)),
+              Math.ceil(getEditorLineAtRatio(this.editor, 1)),
+            ]
+          : [Math.floor(this.previewLine), Math.ceil(this.previewLine)],
       });
+      const viewportResult: ParseResult = await parse(viewport);
+      if (!this.renderScheduler.isSuperseded(request)) {
+        this.applyRender({
+          ...viewportResult,
+          largeDocument: { phase: "viewport", prepared: viewport },
+        });
+      }
+    }
+
+    const prepared = prepareLargeDocument(lines, options);
+    const result: ParseResult = await parse(prepared);
+    return { ...result, largeDocument: { phase: "done", prepared } };
   }
 
   /**
-   * Please notice that row is in center.
-   * @param row The buffer row
+   * Watch the files imported by the document, instead of the ones imported
+   * by the previous render.
+   * The imported files are only looked up again when the paths imported by
+   * the document changed, or when one of the imported files changed.
    */
-  public _scrollToBufferPosition(row) {
-    if (!this.editor) {
+  private async watchImportedFiles() {
+    const text = this.buffer.getText();
+    const documentPath = this.getDocumentPath();
+    const projectDirectoryPath = this.getProjectDirectoryPath();
+    const importPathsKey = getImportPaths(
+      text,
+      documentPath,
+      projectDirectoryPath,
+    ).join("\n");
+    if (importPathsKey === this.importPathsKey) {
       return;
     }
-    if (row < 0) {
-      return;
+    this.importPathsKey = importPathsKey;
+    const importedFiles = await findImportedFiles(
+      text,
+      documentPath,
+      projectDirectoryPath,
+    );
+    if (this.importPathsKey === importPathsKey) {
+      this.importWatcher.watch(importedFiles);
     }
-    this.editorScrollDelay = Date.now() + 500;
+  }
 
-    if (this.scrollTimeout) {
-      clearTimeout(this.scrollTimeout);
+  /**
+   * A file imported by the document was changed, by atom or by another
+   * program.
+   * @param filePath
+   */
+  private importedFileDidChange(filePath: string) {
+    if (!this.engine) {
+      return;
     }
+    // the engine caches the content of the imported files, and the changed
+    // file may import other files now
+    this.engine.clearCaches();
+    this.importPathsKey = null;
+    this.renderMarkdown();
+  }
 
-    const editorElement = this.editor["getElement"]();
-    const delay = 10;
-    const screenRow = this.editor.screenPositionForBufferPosition({
-      row,
-      column: 0,
-    }).row;
-    const scrollTop =
-      screenRow * this.editor["getLineHeightInPixels"]() -
-      this.element.offsetHeight / 2;
-
-    const helper = (duration = 0) => {
-      this.scrollTimeout = setTimeout(() => {
-        if (duration <= 0) {
-          this.editorScrollDelay = Date.now() + 500;
-          editorElement.setScrollTop(scrollTop);
-          return;
-        }
-
-        const difference = scrollTop - editorElement.getScrollTop();
-
-        const perTick = (difference / duration) * delay;
-
-        // disable editor onscroll
-        this.editorScrollDelay = Date.now() + 500;
+  /**
+   * The placeholders of heavy blocks were scrolled into view in the preview.
+   * @param lines The first rows of the blocks
+   */
+  private revealBlocks(lines: number[]) {
+    if (!this.buffer) {
+      return;
+    }
+    const blocks = findHeavyBlocks(
+      this.buffer.getLines(),
+      this.config.mathBlockDelimiters,
+    );
+    let revealed = false;
+    blocks.forEach((block) => {
+      if (lines.indexOf(block.start) >= 0) {
+        this.revealedBlocks.add(block.source);
+        revealed = true;
+      }
+    });
+    if (revealed) {
+      this.renderMarkdown();
+    }
+  }
 
-        const s = editorElement.getScrollTop() + perTick;
-        editorElement.setScrollTop(s);
+  /**
+   * Show the result of the latest render in the webview.
+   * @param result
+   */
+  private applyRender(result: ParseResult) {
+    if (!result || !this.buffer) {
+      return;
+    }
+    const { html, tocHTML, JSAndCssFiles, yamlConfig } = result;
+    if (
+      !mume.utility.isArrayEqual(JSAndCssFiles, this.JSAndCssFiles) ||
+      yamlConfig["isPresentationMode"]
+    ) {
+      this.JSAndCssFiles = JSAndCssFiles;
+      this.loadPreview(); // restart preview
+      return;
+    }
 
-        if (s === scrollTop) {
-          return;
-        }
-        helper(duration - delay);
-      }, delay);
+    const sourceUri = MarkdownPreviewEnhancedView.getSourceUri(this.buffer);
+    const rendered = {
+      blocks: splitHTMLBlocks(html),
+      lineCount: this.buffer.getLineCount(),
+      id: yamlConfig.id || "",
+      class: yamlConfig.class || "",
+    };
+    const patch =
+      rendered.blocks &&
+      this.renderedHTML &&
+      this.renderedHTML.id === rendered.id &&
+      this.renderedHTML.class === rendered.class
+        ? diffHTMLBlocks(
+            this.renderedHTML.blocks,
+            rendered.blocks,
+            rendered.lineCount - this.renderedHTML.lineCount,
+          )
+        : null;
+    if (patch) {
+      this.postMessage({
+        command: "mpePatchHTML",
+        ...patch,
+        tocHTML,
+        totalLineCount: rendered.lineCount,
+        sourceUri,
+      });
+    } else {
+      this.postMessage({
+        command: "updateHTML",
+        html,
+        tocHTML,
+        totalLineCount: rendered.lineCount,
+        sourceUri,
+        id: rendered.id,
+        class: rendered.class,
+      });
+    }
+    this.renderedHTML = rendered.blocks ? rendered : null;
+    this.lastRender = {
+      sourceUri,
+      html,
+      tocHTML,
+      totalLineCount: rendered.lineCount,
+      yamlConfig,
     };
+    this.emitter.emit("did-render", this.lastRender);
+
+    if (this.lineToRestore !== null) {
+      // first render after the webview was (re)loaded
+      this.scrollPreviewToLine(this.lineToRestore, this.previewTopRatio, false);
+      this.lineToRestore = null;
+    } else if (this.config.scrollSync) {
+      // the edit may have moved the elements of the visible lines
+      this.syncPreview(false);
+    }
 
-    const scrollDuration = 120;
-    helper(scrollDuration);
+    this.watchImportedFiles();
+
+    if (result.largeDocument) {
+      const { phase, prepared } = result.largeDocument;
+      this.largeDocumentShown = this.largeDocumentShown || phase === "done";
+      this.postMessage({
+        command: "mpeRenderProgress",
+        phase,
+        startLine: prepared.startRow,
+        endLine: prepared.endRow + 1,
+        totalLineCount: rendered.lineCount,
+        deferredBlockCount: prepared.deferredBlockCount,
+      });
+    }
   }
 
   /**
-   * Get the project directory path of current this.editor
+   * Scroll the editor so that the fractional buffer `line` is at `topRatio`
+   * of its height.
+   * Scroll events of the editor are ignored until the animation is done.
+   * @param line
+   * @param topRatio
    */
-  private getProjectDirectoryPath() {
-    return MarkdownPreviewEnhancedView.getProjectDirectoryPathForEditor(
+  private scrollEditorToLine(line: number, topRatio: number) {
+    if (!this.editor || line < 0) {
+      return;
+    }
+    if (this.stopEditorScroll) {
+      this.stopEditorScroll();
+    }
+    this.editorScrollDelay = Infinity;
+    this.stopEditorScroll = scrollEditorToLine(
       this.editor,
+      line,
+      topRatio,
+      () => {
+        this.stopEditorScroll = null;
+        // `onDidChangeScrollTop` is called in the next update of the editor
+        this.editorScrollDelay = Date.now() + 50;
+      },
+    );
+  }
+
+  /**
+   * Get the project directory path of the previewed file.
+   * Untitled buffers belong to the first project directory.
+   */
+  private getProjectDirectoryPath() {
+    if (!this.buffer) {
+      return "";
+    } else if (!this.buffer.getPath()) {
+      return atom.project.getPaths()[0] || "";
+    }
+    return MarkdownPreviewEnhancedView.getProjectDirectoryPathForFilePath(
+      this.buffer.getPath(),
+    );
+  }
+
+  /**
+   * Get the path of the previewed file, which relative paths are resolved
+   * from. Untitled buffers get a path in their project directory.
+   */
+  private getDocumentPath() {
+    return (
+      this.buffer.getPath() ||
+      path.join(this.getProjectDirectoryPath() || os.homedir(), "untitled.md")
     );
   }
 
+  /**
+   * Get the uri of `buffer` that its preview, engine and view state are
+   * keyed on: its path, or `untitled:<id>` for untitled buffers.
+   * @param buffer
+   */
+  public static getSourceUri(buffer: TextBuffer) {
+    return buffer.getPath() || `untitled:${buffer.getId()}`;
+  }
+
   /**
    * Get the project directory path of the editor
    */
@@ -746,40 +1579,132 @@ export class MarkdownPreviewEnhancedView {
     if (!editor) {
       return "";
     }
+    return MarkdownPreviewEnhancedView.getProjectDirectoryPathForFilePath(
+      editor.getPath(),
+    );
+  }
 
-    const editorPath = editor.getPath();
+  /**
+   * Get the project directory path of the file at `filePath`
+   */
+  public static getProjectDirectoryPathForFilePath(filePath: string) {
     const projectDirectories = atom.project.getDirectories();
 
     for (let i = 0; i < projectDirectories.length; i++) {
       const projectDirectory = projectDirectories[i];
-      if (projectDirectory.contains(editorPath)) {
-        // editor belongs to this project
+      if (projectDirectory.contains(filePath)) {
+        // file belongs to this project
         return projectDirectory.getPath();
       }
     }
     return "";
   }
 
+  /**
+   * Get the markdown engine of the file at `filePath`: the cached one of its
+   * preview, or a new one with the settings of its project applied.
+   * New engines are not cached, as only previews keep their engines updated.
+   * @param filePath
+   * @param config The global config
+   */
+  public static async getEngineForFilePath(
+    filePath: string,
+    config: MarkdownPreviewEnhancedConfig,
+  ): Promise<mume.MarkdownEngine> {
+    if (ENGINE_CACHE.has(filePath)) {
+      return ENGINE_CACHE.get(filePath);
+    }
+    const projectDirectoryPath = MarkdownPreviewEnhancedView.getProjectDirectoryPathForFilePath(
+      filePath,
+    );
+    try {
+      await loadProjectConfig(projectDirectoryPath);
+    } catch (error) {
+      atom.notifications.addError(error.toString());
+    }
+    return new mume.MarkdownEngine({
+      filePath,
+      projectDirectoryPath,
+      config: applyProjectConfig(config, projectDirectoryPath),
+    });
+  }
+
   /**
    * Post message to this.webview
    * @param data
    */
-  private postMessage(data: any) {
+  private postMessage(data: HostMessage) {
     if (this.webview && this.webview.send && this._webviewDOMReady) {
       this.webview.send("_postMessage", data);
     }
   }
 
-  public updateConfiguration() {
-    if (this.config.singlePreview) {
-      for (const sourceUri in MARKDOWN_ENGINES_MAP) {
-        if (MARKDOWN_ENGINES_MAP.hasOwnProperty(sourceUri)) {
-          MARKDOWN_ENGINES_MAP[sourceUri].updateConfiguration(this.config);
-        }
-      }
+  /**
+   * Apply the changes of the user settings or of the project config file,
+   * with the least work that they need, see `SettingEffect`.
+   * @param changedNames The user settings that changed, if any
+   */
+  public updateConfiguration(changedNames: string[] = []) {
+    const previousConfig = this.config;
+    if (this.buffer) {
+      this.config = applyProjectConfig(
+        this.globalConfig,
+        this.getProjectDirectoryPath(),
+      );
+      reportConfigProblems(this.config);
+    }
+    // the global config is updated in place, so it can't be compared with
+    // itself.
+    const effect = getSettingsEffect(
+      previousConfig === this.config
+        ? changedNames
+        : getChangedSettings(previousConfig, this.config),
+    );
+    if (!effect || effect === "host") {
+      return;
+    }
+
+    if (this.globalConfig.singlePreview) {
+      ENGINE_CACHE.forEach((engine, sourceUri) => {
+        engine.updateConfiguration(
+          applyProjectConfig(
+            this.globalConfig,
+            MarkdownPreviewEnhancedView.getProjectDirectoryPathForFilePath(
+              sourceUri,
+            ),
+          ),
+        );
+      });
     } else if (this.engine) {
       this.engine.updateConfiguration(this.config);
     }
+
+    if (!this.buffer || !this.engine) {
+      return;
+    } else if (effect === "reload") {
+      this.loadPreview();
+    } else if (effect === "render") {
+      this.renderMarkdown();
+    }
+  }
+
+  /**
+   * Reload the webview with the current settings, such as when a config
+   * file of mume changed.
+   */
+  public reloadConfiguration() {
+    if (this.buffer) {
+      this.config = applyProjectConfig(
+        this.globalConfig,
+        this.getProjectDirectoryPath(),
+      );
+    }
+    if (this.engine) {
+      this.engine.updateConfiguration(this.config);
+    }
+    if (this.buffer && this.engine) {
+      this.loadPreview();
+    }
   }
 
   public refreshPreview() {
@@ -797,97 +1722,49 @@ export class MarkdownPreviewEnhancedView {
   }
 
   public htmlExport(offline) {
-    atom.notifications.addInfo("Your document is being prepared");
-    this.engine
-      .htmlExport({ offline })
-      .then((dest) => {
-        atom.notifications.addSuccess(
-          `File \`${path.basename(dest)}\` was created at path: \`${dest}\``,
-        );
-      })
-      .catch((error) => {
-        atom.notifications.addError(error.toString());
-      });
+    this.runExport(offline ? "html-offline" : "html");
   }
 
   public chromeExport(fileType = "pdf") {
-    atom.notifications.addInfo("Your document is being prepared");
-    this.engine
-      .chromeExport({ fileType, openFileAfterGeneration: true })
-      .then((dest) => {
-        atom.notifications.addSuccess(
-          `File \`${path.basename(dest)}\` was created at path: \`${dest}\``,
-        );
-      })
-      .catch((error) => {
-        atom.notifications.addError(error.toString());
-      });
+    this.runExport(fileType as ExportFormat);
   }
 
   public princeExport() {
-    atom.notifications.addInfo("Your document is being prepared");
-    this.engine
-      .princeExport({ openFileAfterGeneration: true })
-      .then((dest) => {
-        if (dest.endsWith("?print-pdf")) {
-          // presentation pdf
-          atom.notifications.addSuccess(
-            `Please copy and open the following link in Chrome, then print as PDF`,
-            {
-              dismissable: true,
-              detail: `Path: \`${dest}\``,
-            },
-          );
-        } else {
-          atom.notifications.addSuccess(
-            `File \`${path.basename(dest)}\` was created at path: \`${dest}\``,
-          );
-        }
-      })
-      .catch((error) => {
-        atom.notifications.addError(error.toString());
-      });
+    this.runExport("prince");
   }
 
   public eBookExport(fileType) {
-    atom.notifications.addInfo("Your document is being prepared");
-    this.engine
-      .eBookExport({ fileType })
-      .then((dest) => {
-        atom.notifications.addSuccess(
-          `File \`${path.basename(dest)}\` was created at path: \`${dest}\``,
-        );
-      })
-      .catch((error) => {
-        atom.notifications.addError(error.toString());
-      });
+    this.runExport(`ebook-${fileType}` as ExportFormat);
   }
 
   public pandocExport() {
-    atom.notifications.addInfo("Your document is being prepared");
-    this.engine
-      .pandocExport({ openFileAfterGeneration: true })
-      .then((dest) => {
-        atom.notifications.addSuccess(
-          `File \`${path.basename(dest)}\` was created at path: \`${dest}\``,
-        );
-      })
-      .catch((error) => {
-        atom.notifications.addError(error.toString());
-      });
+    this.runExport("pandoc");
   }
 
   public markdownExport() {
-    atom.notifications.addInfo("Your document is being prepared");
-    this.engine
-      .markdownExport({})
-      .then((dest) => {
-        atom.notifications.addSuccess(
-          `File \`${path.basename(dest)}\` was created at path: \`${dest}\``,
-        );
-      })
-      .catch((error) => {
-        atom.notifications.addError(error.toString());
+    this.runExport("markdown");
+  }
+
+  /**
+   * Export the markdown file as a job tracked by `exportJobManager`.
+   * @param format
+   */
+  private runExport(format: ExportFormat) {
+    if (!this.engine) {
+      return;
+    }
+    const filePath = this.getDocumentPath();
+    const config = this.globalConfig;
+    exportJobManager
+      .run(
+        filePath,
+        format,
+        () =>
+          MarkdownPreviewEnhancedView.getEngineForFilePath(filePath, config),
+        { openFileAfterGeneration: true },
+      )
+      .catch(() => {
+        // already reported by exportJobManager
       });
   }
 
@@ -904,13 +1781,11 @@ export class MarkdownPreviewEnhancedView {
     });
   }
 
-  public runAllCodeChunks() {
+  public runAllCodeChunks(): Promise<void> {
     if (!this.engine) {
-      return;
+      return Promise.resolve();
     }
-    this.engine.runCodeChunks().then(() => {
-      this.renderMarkdown();
-    });
+    return this.engine.runCodeChunks().then(() => this.renderMarkdown());
   }
 
   public sendRunCodeChunkCommand() {
@@ -923,6 +1798,14 @@ export class MarkdownPreviewEnhancedView {
 
   public setZoomLevel(zoomLevel: number) {
     this.zoomLevel = zoomLevel || 1;
+    if (this.buffer) {
+      setDocumentViewState(
+        MarkdownPreviewEnhancedView.getSourceUri(this.buffer),
+        {
+          zoomLevel: this.zoomLevel,
+        },
+      );
+    }
   }
 
   public static async pasteImageFile(
@@ -932,6 +1815,12 @@ export class MarkdownPreviewEnhancedView {
   ) {
     if (!editor) {
       return;
+    } else if (!editor.getPath()) {
+      // the image is copied next to the markdown file
+      atom.notifications.addError(
+        "Please save the markdown file before pasting images.",
+      );
+      return;
     }
     let imageFileName = path.basename(imageFilePath);
     const projectDirectoryPath = MarkdownPreviewEnhancedView.getProjectDirectoryPathForEditor(
@@ -1116,16 +2005,63 @@ export class MarkdownPreviewEnhancedView {
   }
 
   public destroy() {
+    // emitted first, so that listeners can still get the editor
+    this.emitter.emit("did-destroy");
     if (this.disposables) {
       this.disposables.dispose();
       this.disposables = null;
     }
+    if (this.previewCommands) {
+      this.previewCommands.dispose();
+      this.previewCommands = null;
+    }
+    if (this.stopEditorScroll) {
+      this.stopEditorScroll();
+      this.stopEditorScroll = null;
+    }
+    this.renderScheduler.cancel();
+    this.importWatcher.dispose();
     this.element.remove();
-    this.editor = null;
+    this.setSource(null, null);
+    this.destroyed = true;
+    this.htmlFileKeys.forEach((key) => {
+      fs.unlink(HTML_FILES_MAP[key], () => null);
+      delete HTML_FILES_MAP[key];
+    });
+    this.htmlFileKeys = [];
+    MarkdownPreviewEnhancedView.releaseUnusedEngines();
 
     if (this._destroyCB) {
       this._destroyCB(this);
     }
+    this.emitter.dispose();
+  }
+
+  /**
+   * Release the engines of the files that are neither previewed nor open.
+   * Called when previews and editors are destroyed, which are removed from
+   * the workspace after their `onDidDestroy` callbacks.
+   */
+  public static releaseUnusedEngines() {
+    setTimeout(() => ENGINE_CACHE.releaseUnused(), 0);
+  }
+
+  /**
+   * Remove the temp html files of all previews, when the package is
+   * deactivated.
+   */
+  public static removeTempHTMLFiles() {
+    for (const key in HTML_FILES_MAP) {
+      if (HTML_FILES_MAP.hasOwnProperty(key)) {
+        try {
+          // synchronously, as atom may be quitting
+          fs.unlinkSync(HTML_FILES_MAP[key]);
+        } catch (error) {
+          // already removed
+        }
+        delete HTML_FILES_MAP[key];
+      }
+    }
   }
 
   /**
@@ -1138,7 +2074,3 @@ export class MarkdownPreviewEnhancedView {
     this._destroyCB = cb;
   }
 }
-
-export function isMarkdownFile(sourcePath: string): boolean {
-  return false;
-}
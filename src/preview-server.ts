@@ -0,0 +1,539 @@
+import { CompositeDisposable } from "atom";
+import * as fs from "fs";
+import * as http from "http";
+import * as net from "net";
+import * as path from "path";
+import { URL } from "url";
+import * as WebSocket from "ws";
+import { MarkdownPreviewEnhancedConfig } from "./config";
+import {
+  MarkdownPreviewEnhancedView,
+  PreviewRenderEvent,
+  PreviewScrollEvent,
+} from "./preview-content-provider";
+import { SCROLL_DURATION } from "./scroll-sync";
+import { smoothScroll } from "./smooth-scroll";
+import { PROTOCOL_VERSION } from "./webview-protocol";
+import {
+  createWebviewContext,
+  initScrollSync,
+  WebviewScriptOptions,
+} from "./webview-script";
+
+/**
+ * Path of the websocket that pushes the updates to the browsers.
+ */
+const LIVE_PATH = "/__mpe__/live";
+
+const MIME_TYPES: { [key: string]: string } = {
+  ".css": "text/css",
+  ".gif": "image/gif",
+  ".htm": "text/html",
+  ".html": "text/html",
+  ".ico": "image/x-icon",
+  ".jpeg": "image/jpeg",
+  ".jpg": "image/jpeg",
+  ".js": "application/javascript",
+  ".json": "application/json",
+  ".mp3": "audio/mpeg",
+  ".mp4": "video/mp4",
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".svg": "image/svg+xml",
+  ".ttf": "font/ttf",
+  ".txt": "text/plain",
+  ".webm": "video/webm",
+  ".webp": "image/webp",
+  ".woff": "font/woff",
+  ".woff2": "font/woff2",
+};
+
+/**
+ * Messages sent to the browsers. They have the format of the messages of
+ * `MarkdownPreviewEnhancedView.postMessage`, so that the scroll sync of the
+ * webview handles them.
+ */
+type LiveMessage =
+  | { command: "updateHTML"; html: string; totalLineCount: number }
+  | {
+      command: "mpeScrollToLine";
+      line: number;
+      topRatio: number;
+      animate: false;
+    }
+  | { command: "mpeNavigate"; path: string };
+
+/**
+ * Script of the served page, which applies the messages of the server.
+ * It is injected as source code, so it must not reference anything outside
+ * of its own body.
+ * The messages are passed on to the scroll sync of the webview, see
+ * `initScrollSync`.
+ * @param livePath
+ */
+function liveClient(livePath: string) {
+  const getPreviewElement = () =>
+    (document.querySelector(".mume.markdown-preview") as HTMLElement) ||
+    document.body;
+
+  const socket = new window.WebSocket(`ws://${location.host}${livePath}`);
+  socket.onmessage = (event) => {
+    const message = JSON.parse(event.data);
+    const w = window as any;
+    if (message.command === "mpeNavigate") {
+      location.pathname = message.path;
+      return;
+    } else if (message.command === "updateHTML") {
+      const previewElement = getPreviewElement();
+      previewElement.innerHTML = message.html;
+      if (w.mermaid) {
+        try {
+          w.mermaid.init(
+            undefined,
+            previewElement.querySelectorAll(".mermaid"),
+          );
+        } catch (error) {
+          // keep the source of invalid diagrams
+        }
+      }
+      if (w.MathJax && w.MathJax.Hub) {
+        w.MathJax.Hub.Queue(["Typeset", w.MathJax.Hub, previewElement]);
+      }
+    }
+    window.postMessage(message, location.origin);
+  };
+  socket.onclose = () => {
+    const banner = document.createElement("div");
+    banner.textContent = "The preview server stopped.";
+    banner.style.cssText =
+      "position:fixed;top:0;left:0;right:0;padding:4px;text-align:center;" +
+      "color:#fff;background:#c00;font:13px sans-serif;z-index:1000";
+    document.body.appendChild(banner);
+  };
+}
+
+/**
+ * Get the `<script>` tag that runs `liveClient` and the scroll sync of the
+ * webview in a served page.
+ */
+function getLiveScriptHTML() {
+  const scriptOptions: WebviewScriptOptions = {
+    sourceUri: "",
+    scrollDuration: SCROLL_DURATION,
+    protocolVersion: PROTOCOL_VERSION,
+    hasHost: false,
+  };
+  return `<script>
+(function() {
+  var context = (${createWebviewContext.toString()})(${JSON.stringify(
+    scriptOptions,
+  )}, ${smoothScroll.toString()});
+  (${initScrollSync.toString()})(context);
+  (${liveClient.toString()})(${JSON.stringify(LIVE_PATH)});
+})();
+</script>`;
+}
+
+/**
+ * HTTP server that serves a preview to browsers, and pushes the updates and
+ * scroll position of the preview through a websocket.
+ * The files of the project of the markdown file are served as well, so that
+ * relative links and images work.
+ * Only requests to the configured host, `localhost` or an ip address are
+ * answered.
+ */
+export class PreviewServer {
+  private server: http.Server = null;
+  private liveServer: WebSocket.Server = null;
+  private origin: string = "";
+  private port: number = 0;
+  /**
+   * The configured host name, or `localhost` if the server listens on all
+   * addresses.
+   */
+  private hostname: string = "";
+
+  private preview: MarkdownPreviewEnhancedView = null;
+  private previewSubscriptions: CompositeDisposable = null;
+
+  /**
+   * Files are served from this directory.
+   */
+  private rootDirectoryPath: string = "";
+  /**
+   * The markdown file of the preview, and its url path.
+   */
+  private pageFilePath: string = "";
+  private pagePath: string = "";
+  /**
+   * The last render of the preview, with the urls of its files made
+   * relative to the server.
+   */
+  private render: PreviewRenderEvent = null;
+  /**
+   * The page generated from `render`, only when a browser loads it.
+   */
+  private page: Promise<string> = null;
+  private lastScroll: PreviewScrollEvent = null;
+
+  public isRunning() {
+    return !!this.server;
+  }
+
+  /**
+   * Serve `preview`, starting the server if it is not running.
+   * Resolves with the url of the page.
+   * The server is stopped if the page can't be served.
+   * @param preview
+   * @param config
+   */
+  public async start(
+    preview: MarkdownPreviewEnhancedView,
+    config: MarkdownPreviewEnhancedConfig,
+  ): Promise<string> {
+    if (!this.server) {
+      await this.listen(config.previewServerPort, config.previewServerHost);
+    }
+    this.follow(preview);
+    try {
+      this.updatePage(preview.getLastRender());
+    } catch (error) {
+      this.stop();
+      throw error;
+    }
+    return this.origin + this.pagePath;
+  }
+
+  public stop() {
+    if (this.previewSubscriptions) {
+      this.previewSubscriptions.dispose();
+      this.previewSubscriptions = null;
+    }
+    this.preview = null;
+    if (this.liveServer) {
+      this.liveServer.clients.forEach((client) => client.close());
+      this.liveServer.close();
+      this.liveServer = null;
+    }
+    if (this.server) {
+      this.server.close();
+      this.server = null;
+    }
+    this.render = null;
+    this.page = null;
+    this.pagePath = "";
+    this.pageFilePath = "";
+    this.lastScroll = null;
+  }
+
+  private listen(port: number, host: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const server = http.createServer((request, response) =>
+        this.handleRequest(request, response),
+      );
+      server.on("upgrade", (request, socket, head) =>
+        this.handleUpgrade(request, socket, head),
+      );
+      server.once("error", reject);
+      server.listen(port, host, () => {
+        server.removeListener("error", reject);
+        const address = server.address() as net.AddressInfo;
+        this.hostname =
+          host === "0.0.0.0" || host === "::"
+            ? "localhost"
+            : net.isIPv6(host)
+            ? `[${host}]`
+            : host.toLowerCase();
+        this.port = address.port;
+        this.origin = `http://${this.hostname}:${this.port}`;
+        this.server = server;
+        this.liveServer = new WebSocket.Server({ noServer: true });
+        resolve();
+      });
+    });
+  }
+
+  private follow(preview: MarkdownPreviewEnhancedView) {
+    if (this.preview === preview) {
+      return;
+    }
+    if (this.previewSubscriptions) {
+      this.previewSubscriptions.dispose();
+    }
+    this.preview = preview;
+    this.previewSubscriptions = new CompositeDisposable(
+      preview.onDidRender((event) => {
+        try {
+          this.updatePage(event);
+        } catch (error) {
+          atom.notifications.addError(
+            `Failed to update the preview server: ${error.message}`,
+          );
+        }
+      }),
+      preview.onDidScroll((event) => {
+        this.lastScroll = event;
+        this.broadcast(this.getScrollMessage());
+      }),
+      preview.onDidDestroy(() => {
+        this.stop();
+        atom.notifications.addInfo(
+          "The preview server stopped, as its preview was closed.",
+        );
+      }),
+    );
+  }
+
+  /**
+   * Serve the html of the `render` of the followed preview, and push it to
+   * the browsers. The preview isn't rendered again, the page is generated
+   * from the html of the preview when a browser loads it.
+   * Throws if the page can't be served, such as for an untitled buffer,
+   * whose files can't be served relatively to it.
+   * @param render `null` if the preview hasn't rendered yet
+   */
+  private updatePage(render: PreviewRenderEvent) {
+    const filePath = this.preview && this.preview.getFilePath();
+    if (!filePath) {
+      throw new Error("the previewed markdown file is not saved");
+    }
+    const isSameFile = filePath === this.pageFilePath;
+    this.rootDirectoryPath =
+      MarkdownPreviewEnhancedView.getProjectDirectoryPathForFilePath(
+        filePath,
+      ) || path.dirname(filePath);
+    this.pageFilePath = filePath;
+    this.pagePath =
+      "/" +
+      path
+        .relative(this.rootDirectoryPath, filePath)
+        .split(path.sep)
+        .map(encodeURIComponent)
+        .join("/");
+    if (!render) {
+      return;
+    }
+    this.render = { ...render, html: this.toServedHTML(render.html) };
+    this.page = null;
+
+    this.broadcast(
+      isSameFile
+        ? {
+            command: "updateHTML",
+            html: this.render.html,
+            totalLineCount: this.render.totalLineCount,
+          }
+        : { command: "mpeNavigate", path: this.pagePath },
+    );
+  }
+
+  /**
+   * Replace the `file://` urls of the preview `html` that point to served
+   * files with their paths on the server.
+   * @param html
+   */
+  private toServedHTML(html: string) {
+    return html.replace(
+      /(\s(?:src|href)=["'])file:\/\/\/([^"'?#]*)/g,
+      (match, attribute: string, urlPath: string) => {
+        const filePath = path.isAbsolute(urlPath) ? urlPath : "/" + urlPath;
+        const relativePath = path.relative(this.rootDirectoryPath, filePath);
+        if (relativePath.startsWith("..") || path.isAbsolute(relativePath)) {
+          return match;
+        }
+        return (
+          attribute +
+          "/" +
+          relativePath
+            .split(path.sep)
+            .map(encodeURIComponent)
+            .join("/")
+        );
+      },
+    );
+  }
+
+  /**
+   * Generate the page of the last render, like an html export.
+   */
+  private generatePage(): Promise<string> {
+    const engine = this.preview && this.preview.getEngine();
+    if (!engine) {
+      return Promise.reject(new Error("the preview has no markdown engine"));
+    }
+    return engine
+      .generateHTMLTemplateForExport(this.render.html, this.render.yamlConfig, {
+        isForPrint: false,
+        isForPrince: false,
+        offline: false,
+        embedLocalImages: false,
+      })
+      .then((page: string) =>
+        page.replace(/<\/body>/i, () => `${getLiveScriptHTML()}</body>`),
+      );
+  }
+
+  private getScrollMessage(): LiveMessage {
+    return {
+      command: "mpeScrollToLine",
+      line: this.lastScroll.line,
+      topRatio: this.lastScroll.topRatio,
+      animate: false,
+    };
+  }
+
+  /**
+   * Check if `host`, the value of a `Host` header or the host of an origin,
+   * is this server under its own name, `localhost` or an ip address.
+   * Other host names may resolve to this computer through DNS rebinding, so
+   * that their pages could read the served files.
+   * @param host
+   */
+  private isAllowedHost(host: string) {
+    const match =
+      typeof host === "string" &&
+      host.toLowerCase().match(/^(\[[^\]]*\]|[^:]*)(?::(\d+))?$/);
+    if (!match || parseInt(match[2] || "80", 10) !== this.port) {
+      return false;
+    }
+    const hostname = match[1];
+    return (
+      hostname === this.hostname ||
+      hostname === "localhost" ||
+      net.isIP(hostname.replace(/^\[(.*)\]$/, "$1")) !== 0
+    );
+  }
+
+  private handleRequest(
+    request: http.IncomingMessage,
+    response: http.ServerResponse,
+  ) {
+    if (!this.isAllowedHost(request.headers.host)) {
+      response.writeHead(403);
+      return response.end();
+    }
+    if (request.method !== "GET" && request.method !== "HEAD") {
+      response.writeHead(405);
+      return response.end();
+    }
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(
+        new URL(request.url, "http://localhost").pathname,
+      );
+    } catch (error) {
+      response.writeHead(400);
+      return response.end();
+    }
+
+    if (!this.render) {
+      response.writeHead(503, { "Content-Type": "text/plain" });
+      return response.end("The preview is loading, please refresh the page.");
+    }
+    if (pathname === "/") {
+      response.writeHead(302, { Location: this.pagePath });
+      return response.end();
+    }
+
+    const filePath = path.join(this.rootDirectoryPath, pathname);
+    if (filePath === this.pageFilePath) {
+      if (!this.page) {
+        this.page = this.generatePage();
+      }
+      const page = this.page;
+      page.then(
+        (html) => {
+          response.writeHead(200, {
+            "Content-Type": "text/html; charset=utf-8",
+            "Cache-Control": "no-cache",
+          });
+          response.end(request.method === "HEAD" ? "" : html);
+        },
+        (error) => {
+          if (this.page === page) {
+            this.page = null;
+          }
+          response.writeHead(500, { "Content-Type": "text/plain" });
+          response.end(`Failed to generate the page: ${error.message}`);
+        },
+      );
+      return;
+    }
+
+    // hidden files such as `.git` and `.mpe.json` are not served
+    const relativePath = path.relative(this.rootDirectoryPath, filePath);
+    if (
+      relativePath.startsWith("..") ||
+      path.isAbsolute(relativePath) ||
+      relativePath.split(path.sep).some((name) => name.startsWith("."))
+    ) {
+      response.writeHead(404);
+      return response.end();
+    }
+    fs.stat(filePath, (error, stats) => {
+      if (error || !stats.isFile()) {
+        response.writeHead(404);
+        return response.end();
+      }
+      response.writeHead(200, {
+        "Content-Type":
+          MIME_TYPES[path.extname(filePath).toLowerCase()] ||
+          "application/octet-stream",
+        "Content-Length": stats.size,
+      });
+      if (request.method === "HEAD") {
+        return response.end();
+      }
+      fs.createReadStream(filePath).pipe(response);
+    });
+  }
+
+  /**
+   * Accept the websocket connection of a served page.
+   * Connections from the pages of other origins are refused.
+   * @param request
+   * @param socket
+   * @param head
+   */
+  private handleUpgrade(
+    request: http.IncomingMessage,
+    socket: net.Socket,
+    head: Buffer,
+  ) {
+    const origin = request.headers.origin;
+    if (
+      !this.isAllowedHost(request.headers.host) ||
+      (origin !== undefined &&
+        !(
+          origin.startsWith("http://") &&
+          this.isAllowedHost(origin.slice("http://".length))
+        ))
+    ) {
+      socket.end("HTTP/1.1 403 Forbidden\r\n\r\n");
+      return;
+    }
+    if (new URL(request.url, "http://localhost").pathname !== LIVE_PATH) {
+      socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+      return;
+    }
+    this.liveServer.handleUpgrade(request, socket, head, (client) => {
+      if (this.lastScroll) {
+        this.send(client, this.getScrollMessage());
+      }
+    });
+  }
+
+  private send(client: WebSocket, message: LiveMessage) {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(JSON.stringify(message));
+    }
+  }
+
+  private broadcast(message: LiveMessage) {
+    if (this.liveServer) {
+      this.liveServer.clients.forEach((client) => this.send(client, message));
+    }
+  }
+}
+
+export const previewServer = new PreviewServer();
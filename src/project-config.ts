@@ -0,0 +1,195 @@
+import * as fs from "fs";
+import * as path from "path";
+import { promisify } from "util";
+import { isConfigSetting, MarkdownPreviewEnhancedConfig } from "./config";
+import { ExportFormat, getExportFormatInfo } from "./exporter";
+
+const readFile = promisify(fs.readFile);
+
+/**
+ * Name of the project-local config file.
+ * It is looked up in the project directory of the markdown file.
+ */
+export const PROJECT_CONFIG_FILE_NAME = ".mpe.json";
+
+export interface ExportProfile {
+  name: string;
+  format: ExportFormat;
+  description: string;
+  /**
+   * Settings that override the global ones for this export.
+   * Keys are the same as in `ConfigSettings`.
+   */
+  settings: { [key: string]: any };
+}
+
+export interface ProjectConfig {
+  exportProfiles: ExportProfile[];
+  /**
+   * Settings that override the global ones for all documents in the project.
+   * Keys are the same as in `ConfigSettings`.
+   */
+  settings: { [key: string]: any };
+}
+
+/**
+ * Key is project directory path
+ * Value is the project config loaded by `loadProjectConfig`
+ */
+const PROJECT_CONFIGS_MAP: { [key: string]: ProjectConfig } = {};
+
+/**
+ * Get the path of the project config file for `projectDirectoryPath`.
+ * @param projectDirectoryPath
+ */
+export function getProjectConfigFilePath(projectDirectoryPath: string) {
+  return path.resolve(projectDirectoryPath, PROJECT_CONFIG_FILE_NAME);
+}
+
+/**
+ * Parse the `settings` field of the project config file.
+ * @param settings
+ */
+function parseSettings(settings: any): { [key: string]: any } {
+  if (settings == null) {
+    return {};
+  }
+  if (typeof settings !== "object" || Array.isArray(settings)) {
+    throw new Error("`settings` must be an object");
+  }
+  for (const key in settings) {
+    if (settings.hasOwnProperty(key) && !isConfigSetting(key)) {
+      throw new Error(`Unknown setting \`${key}\``);
+    }
+  }
+  return settings;
+}
+
+/**
+ * Parse the `exportProfiles` field of the project config file, which maps
+ * profile names to `{format, description?, settings?}` objects.
+ * @param exportProfiles
+ */
+function parseExportProfiles(exportProfiles: any): ExportProfile[] {
+  if (exportProfiles == null) {
+    return [];
+  }
+  if (typeof exportProfiles !== "object" || Array.isArray(exportProfiles)) {
+    throw new Error("`exportProfiles` must be an object");
+  }
+
+  const result: ExportProfile[] = [];
+  for (const name in exportProfiles) {
+    if (exportProfiles.hasOwnProperty(name)) {
+      const profile = exportProfiles[name] || {};
+      if (!getExportFormatInfo(profile.format)) {
+        throw new Error(
+          `Export profile \`${name}\` has an unknown format \`${profile.format}\``,
+        );
+      }
+      const settings = profile.settings || {};
+      for (const key in settings) {
+        if (settings.hasOwnProperty(key) && !isConfigSetting(key)) {
+          throw new Error(
+            `Export profile \`${name}\` has an unknown setting \`${key}\``,
+          );
+        }
+      }
+      result.push({
+        name,
+        format: profile.format,
+        description: profile.description || "",
+        settings,
+      });
+    }
+  }
+  return result;
+}
+
+/**
+ * Read the project config file in `projectDirectoryPath`.
+ * An empty config is returned if the file doesn't exist.
+ * Throws if the file is not valid.
+ * @param projectDirectoryPath
+ */
+export async function readProjectConfig(
+  projectDirectoryPath: string,
+): Promise<ProjectConfig> {
+  const projectConfig: ProjectConfig = { exportProfiles: [], settings: {} };
+  if (!projectDirectoryPath) {
+    return projectConfig;
+  }
+
+  const filePath = getProjectConfigFilePath(projectDirectoryPath);
+  let text: string;
+  try {
+    text = await readFile(filePath, { encoding: "utf-8" });
+  } catch (error) {
+    if (error.code === "ENOENT") {
+      return projectConfig;
+    }
+    throw error;
+  }
+
+  let json;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Failed to parse \`${filePath}\`: ${error.message}`);
+  }
+  try {
+    projectConfig.exportProfiles = parseExportProfiles(json.exportProfiles);
+    projectConfig.settings = parseSettings(json.settings);
+  } catch (error) {
+    throw new Error(`Invalid \`${filePath}\`: ${error.message}`);
+  }
+  return projectConfig;
+}
+
+/**
+ * Load the project config of `projectDirectoryPath` into the cache that
+ * `applyProjectConfig` reads from.
+ * If the config file is not valid, an empty config is cached and the error
+ * is thrown.
+ * @param projectDirectoryPath
+ * @param reload Read the file again even if it is cached.
+ */
+export async function loadProjectConfig(
+  projectDirectoryPath: string,
+  reload: boolean = false,
+): Promise<ProjectConfig> {
+  if (!reload && projectDirectoryPath in PROJECT_CONFIGS_MAP) {
+    return PROJECT_CONFIGS_MAP[projectDirectoryPath];
+  }
+  try {
+    PROJECT_CONFIGS_MAP[projectDirectoryPath] = await readProjectConfig(
+      projectDirectoryPath,
+    );
+  } catch (error) {
+    PROJECT_CONFIGS_MAP[projectDirectoryPath] = {
+      exportProfiles: [],
+      settings: {},
+    };
+    throw error;
+  }
+  return PROJECT_CONFIGS_MAP[projectDirectoryPath];
+}
+
+/**
+ * Get the effective config for documents in `projectDirectoryPath`, that is
+ * `config` overridden by the cached project settings.
+ * Workspace-wide behaviors such as `singlePreview` keep reading the global
+ * config.
+ * @param config
+ * @param projectDirectoryPath
+ */
+export function applyProjectConfig(
+  config: MarkdownPreviewEnhancedConfig,
+  projectDirectoryPath: string,
+): MarkdownPreviewEnhancedConfig {
+  const projectConfig = PROJECT_CONFIGS_MAP[projectDirectoryPath];
+  if (!projectConfig || !Object.keys(projectConfig.settings).length) {
+    return config;
+  }
+  return config.withOverrides(projectConfig.settings);
+}
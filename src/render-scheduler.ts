@@ -0,0 +1,158 @@
+/**
+ * Delay before a scheduled render starts, in milliseconds.
+ * The renders scheduled meanwhile, such as the ones of `onDidStopChanging`
+ * and `onDidSave` after a save, are merged into one.
+ */
+export const RENDER_DELAY = 50;
+
+export interface RenderRequest {
+  /**
+   * Increases with each started render.
+   */
+  generation: number;
+  /**
+   * One of the merged requests was triggered by a save.
+   */
+  triggeredBySave: boolean;
+}
+
+export interface RenderSchedulerOptions<T> {
+  /**
+   * Start a render.
+   */
+  render: (request: RenderRequest) => Promise<T>;
+  /**
+   * Show the result of a render that wasn't superseded.
+   */
+  apply: (result: T, request: RenderRequest) => void;
+  /**
+   * Default is `RENDER_DELAY`.
+   */
+  delay?: number;
+  /**
+   * Maximum number of renders that run at the same time.
+   * Default is 1.
+   */
+  maxInFlight?: number;
+}
+
+/**
+ * Requests that are merged into the next render.
+ */
+interface PendingRender {
+  triggeredBySave: boolean;
+  callbacks: Array<{
+    resolve: (applied: boolean) => void;
+    reject: (error: any) => void;
+  }>;
+}
+
+/**
+ * Schedules the renders of a preview.
+ *
+ * Each render is tagged with a generation. The result of a render is
+ * dropped if the result of a newer one was already applied, so that a slow
+ * render never replaces the result of a faster, newer one.
+ * Once `maxInFlight` renders are running, the new requests wait and are
+ * merged into one render.
+ */
+export class RenderScheduler<T> {
+  private options: RenderSchedulerOptions<T>;
+  private generation: number = 0;
+  private appliedGeneration: number = 0;
+  private inFlight: number = 0;
+  private pending: PendingRender = null;
+  private timer = null;
+
+  constructor(options: RenderSchedulerOptions<T>) {
+    this.options = Object.assign(
+      { delay: RENDER_DELAY, maxInFlight: 1 },
+      options,
+    );
+  }
+
+  /**
+   * Schedule a render.
+   * Resolves with `true` once its result was applied, or with `false` if it
+   * was dropped or cancelled. Rejects if the render failed.
+   * @param triggeredBySave
+   */
+  public schedule(triggeredBySave: boolean = false): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      if (!this.pending) {
+        this.pending = { triggeredBySave: false, callbacks: [] };
+      }
+      this.pending.triggeredBySave =
+        this.pending.triggeredBySave || triggeredBySave;
+      this.pending.callbacks.push({ resolve, reject });
+
+      clearTimeout(this.timer);
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.startPendingRender();
+      }, this.options.delay);
+    });
+  }
+
+  /**
+   * Whether the result of `request` would be dropped, or a newer render is
+   * scheduled already.
+   * Renders use it to skip their intermediate results.
+   * @param request
+   */
+  public isSuperseded(request: RenderRequest): boolean {
+    return (
+      request.generation <= this.appliedGeneration ||
+      request.generation < this.generation ||
+      !!this.pending
+    );
+  }
+
+  /**
+   * Drop the scheduled render and the results of the running ones.
+   */
+  public cancel() {
+    clearTimeout(this.timer);
+    this.timer = null;
+    if (this.pending) {
+      this.pending.callbacks.forEach(({ resolve }) => resolve(false));
+      this.pending = null;
+    }
+    this.appliedGeneration = this.generation;
+  }
+
+  private startPendingRender() {
+    if (
+      !this.pending ||
+      this.timer ||
+      this.inFlight >= this.options.maxInFlight
+    ) {
+      return;
+    }
+    const { triggeredBySave, callbacks } = this.pending;
+    this.pending = null;
+    const request: RenderRequest = {
+      generation: ++this.generation,
+      triggeredBySave,
+    };
+
+    this.inFlight++;
+    new Promise<T>((resolve) => resolve(this.options.render(request)))
+      .then((result) => {
+        if (request.generation <= this.appliedGeneration) {
+          return false;
+        }
+        this.appliedGeneration = request.generation;
+        this.options.apply(result, request);
+        return true;
+      })
+      .then(
+        (applied) => callbacks.forEach(({ resolve }) => resolve(applied)),
+        (error) => callbacks.forEach(({ reject }) => reject(error)),
+      )
+      .then(() => {
+        this.inFlight--;
+        this.startPendingRender();
+      });
+  }
+}
@@ -0,0 +1,131 @@
+import { TextEditor } from "atom";
+import { smoothScroll } from "./smooth-scroll";
+
+/**
+ * Duration of the scroll animations of both the editor and the preview.
+ */
+export const SCROLL_DURATION = 120;
+
+/**
+ * A group of consecutive screen rows that display the same buffer rows:
+ * the wrapped rows of a soft-wrapped line, or the row of a fold.
+ */
+interface ScreenBlock {
+  firstScreenRow: number;
+  lastScreenRow: number;
+  startBufferRow: number;
+  /**
+   * Exclusive.
+   */
+  endBufferRow: number;
+}
+
+/**
+ * Get the screen block that contains `screenRow`.
+ * @param editor
+ * @param screenRow
+ */
+function getScreenBlock(editor: TextEditor, screenRow: number): ScreenBlock {
+  const lastScreenRow = editor.getLastScreenRow();
+  screenRow = Math.max(0, Math.min(screenRow, lastScreenRow));
+
+  const startBufferRow = editor["bufferRowForScreenRow"](screenRow);
+  const firstScreenRow = editor.screenPositionForBufferPosition([
+    startBufferRow,
+    0,
+  ]).row;
+  const lastScreenRowOfBlock = Math.max(
+    firstScreenRow,
+    editor.screenPositionForBufferPosition([startBufferRow, Infinity]).row,
+  );
+  const endBufferRow =
+    lastScreenRowOfBlock < lastScreenRow
+      ? editor["bufferRowForScreenRow"](lastScreenRowOfBlock + 1)
+      : editor.getLineCount();
+
+  return {
+    firstScreenRow,
+    lastScreenRow: lastScreenRowOfBlock,
+    startBufferRow,
+    endBufferRow: Math.max(startBufferRow + 1, endBufferRow),
+  };
+}
+
+/**
+ * Get the fractional buffer line displayed at `topRatio` of the editor
+ * viewport, 0 being the top and 1 the bottom.
+ * @param editor
+ * @param topRatio
+ */
+export function getEditorLineAtRatio(
+  editor: TextEditor,
+  topRatio: number,
+): number {
+  const editorElement = editor["getElement"]();
+  const lineHeight = editor["getLineHeightInPixels"]();
+  const y = editorElement.getScrollTop() + editorElement.getHeight() * topRatio;
+  const screenRow = Math.max(0, y / lineHeight);
+
+  const block = getScreenBlock(editor, Math.floor(screenRow));
+  const ratioInBlock = Math.min(
+    1,
+    (screenRow - block.firstScreenRow) /
+      (block.lastScreenRow - block.firstScreenRow + 1),
+  );
+  return (
+    block.startBufferRow +
+    ratioInBlock * (block.endBufferRow - block.startBufferRow)
+  );
+}
+
+/**
+ * Smoothly scroll the editor so that the fractional buffer `line` is
+ * displayed at `topRatio` of the viewport.
+ * Returns a function that stops the animation.
+ * @param editor
+ * @param line
+ * @param topRatio
+ * @param onDone
+ */
+export function scrollEditorToLine(
+  editor: TextEditor,
+  line: number,
+  topRatio: number,
+  onDone: () => void,
+): () => void {
+  const editorElement = editor["getElement"]();
+  const lineHeight = editor["getLineHeightInPixels"]();
+  const bufferRow = Math.max(
+    0,
+    Math.min(Math.floor(line), editor.getLastBufferRow()),
+  );
+
+  const block = getScreenBlock(
+    editor,
+    editor.screenPositionForBufferPosition([bufferRow, 0]).row,
+  );
+  const ratioInBlock = Math.max(
+    0,
+    Math.min(
+      1,
+      (line - block.startBufferRow) /
+        (block.endBufferRow - block.startBufferRow),
+    ),
+  );
+  const screenRows =
+    ratioInBlock * (block.lastScreenRow - block.firstScreenRow + 1);
+  const y =
+    editorElement.pixelPositionForScreenPosition({
+      row: block.firstScreenRow,
+      column: 0,
+    }).top +
+    screenRows * lineHeight;
+
+  return smoothScroll({
+    getScrollTop: () => editorElement.getScrollTop(),
+    setScrollTop: (scrollTop) => editorElement.setScrollTop(scrollTop),
+    to: Math.max(0, y - editorElement.getHeight() * topRatio),
+    duration: SCROLL_DURATION,
+    onDone,
+  });
+}
@@ -0,0 +1,136 @@
+import { CompositeDisposable } from "atom";
+
+export interface SelectListItem<T> {
+  label: string;
+  description?: string;
+  value: T;
+}
+
+/**
+ * Show a modal select list with a filter editor.
+ * Resolves with the value of the chosen item, or `null` if cancelled.
+ * @param items
+ * @param placeholder The placeholder text of the filter editor.
+ */
+export function showSelectList<T>(
+  items: Array<SelectListItem<T>>,
+  placeholder: string = "",
+): Promise<T> {
+  return new Promise((resolve) => {
+    const previouslyFocusedElement = document.activeElement as HTMLElement;
+    const subscriptions = new CompositeDisposable();
+
+    const element = document.createElement("div");
+    element.classList.add("select-list");
+    element.classList.add("mpe-select-list");
+
+    const filterEditor = atom.workspace.buildTextEditor({ mini: true });
+    filterEditor.setPlaceholderText(placeholder);
+    const filterEditorElement = filterEditor["getElement"]();
+    element.appendChild(filterEditorElement);
+
+    const listElement = document.createElement("ol");
+    listElement.classList.add("list-group");
+    element.appendChild(listElement);
+
+    let visibleItems = items;
+    let selectedIndex = 0;
+
+    const renderItems = () => {
+      listElement.innerHTML = "";
+      for (let i = 0; i < visibleItems.length; i++) {
+        const item = visibleItems[i];
+        const li = document.createElement("li");
+        if (i === selectedIndex) {
+          li.classList.add("selected");
+        }
+        const label = document.createElement("div");
+        label.innerText = item.label;
+        li.appendChild(label);
+        if (item.description) {
+          li.classList.add("two-lines");
+          label.classList.add("primary-line");
+          const description = document.createElement("div");
+          description.classList.add("secondary-line");
+          description.innerText = item.description;
+          li.appendChild(description);
+        }
+        li.onmousedown = (event) => {
+          // Prevent the filter editor from losing focus.
+          event.preventDefault();
+        };
+        li.onclick = () => done(item.value);
+        listElement.appendChild(li);
+      }
+      const selectedElement = listElement.children[selectedIndex];
+      if (selectedElement) {
+        selectedElement.scrollIntoView({ block: "nearest" });
+      }
+    };
+
+    const moveSelection = (delta: number) => {
+      if (!visibleItems.length) {
+        return;
+      }
+      selectedIndex =
+        (selectedIndex + delta + visibleItems.length) % visibleItems.length;
+      renderItems();
+    };
+
+    const panel = atom.workspace.addModalPanel({ item: element });
+
+    let finished = false;
+    function done(value: T) {
+      if (finished) {
+        return;
+      }
+      finished = true;
+      subscriptions.dispose();
+      panel.destroy();
+      if (previouslyFocusedElement) {
+        previouslyFocusedElement.focus();
+      }
+      resolve(value);
+    }
+
+    subscriptions.add(
+      atom.commands.add(element, {
+        "core:move-up": (event) => {
+          moveSelection(-1);
+          event.stopPropagation();
+        },
+        "core:move-down": (event) => {
+          moveSelection(1);
+          event.stopPropagation();
+        },
+        "core:confirm": (event) => {
+          const item = visibleItems[selectedIndex];
+          done(item ? item.value : null);
+          event.stopPropagation();
+        },
+        "core:cancel": (event) => {
+          done(null);
+          event.stopPropagation();
+        },
+      }),
+    );
+
+    subscriptions.add(
+      filterEditor.onDidChange(() => {
+        const query = filterEditor.getText().toLowerCase();
+        visibleItems = items.filter(
+          (item) =>
+            item.label.toLowerCase().indexOf(query) >= 0 ||
+            (item.description || "").toLowerCase().indexOf(query) >= 0,
+        );
+        selectedIndex = 0;
+        renderItems();
+      }),
+    );
+
+    filterEditorElement.addEventListener("blur", () => done(null));
+
+    renderItems();
+    filterEditorElement.focus();
+  });
+}
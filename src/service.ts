@@ -0,0 +1,188 @@
+import { Disposable, Emitter, TextEditor } from "atom";
+import { MarkdownPreviewEnhancedConfig } from "./config";
+import { exportJobManager } from "./export-jobs";
+import { EXPORT_FORMATS, ExportFormat, getExportFormatInfo } from "./exporter";
+import {
+  MarkdownPreviewEnhancedView,
+  PreviewRenderEvent,
+  PreviewScrollEvent,
+} from "./preview-content-provider";
+
+/**
+ * Version of `MarkdownPreviewEnhancedService`, as declared in the
+ * `providedServices` of package.json.
+ */
+export const SERVICE_VERSION = "1.0.0";
+
+/**
+ * Emitted when a preview is opened or destroyed.
+ */
+export interface PreviewLifecycleEvent {
+  /**
+   * The uri of the preview pane item.
+   */
+  uri: string;
+  /**
+   * The markdown file shown in the preview, `""` if none.
+   */
+  sourceUri: string;
+}
+
+export interface ParseMarkdownOptions {
+  /**
+   * Keep the paths of local files relative to the markdown file,
+   * instead of making them absolute.
+   */
+  useRelativeFilePath?: boolean;
+  hideFrontMatter?: boolean;
+}
+
+export interface ParseMarkdownResult {
+  html: string;
+  tocHTML: string;
+  /**
+   * The front matter.
+   */
+  yamlConfig: any;
+}
+
+/**
+ * The `markdown-preview-enhanced` service for other packages.
+ */
+export interface MarkdownPreviewEnhancedService {
+  version: string;
+  /**
+   * Render the markdown `text` of the file at `filePath` to html, with the
+   * settings of the package and of the project of the file.
+   */
+  parseMarkdown(
+    text: string,
+    filePath: string,
+    options?: ParseMarkdownOptions,
+  ): Promise<ParseMarkdownResult>;
+  /**
+   * Open the preview of a markdown editor.
+   */
+  openPreview(editor: TextEditor): void;
+  /**
+   * Run all the code chunks of the preview of `editor`.
+   * Rejects if `editor` has no preview.
+   */
+  runAllCodeChunks(editor: TextEditor): Promise<void>;
+  getExportFormats(): ExportFormat[];
+  /**
+   * Export the file at `filePath`. The export is listed in the export jobs.
+   * Resolves with the path of the generated file.
+   */
+  exportFile(
+    filePath: string,
+    format: ExportFormat,
+    options?: { notify?: boolean },
+  ): Promise<string>;
+  onDidOpenPreview(
+    callback: (event: PreviewLifecycleEvent) => void,
+  ): Disposable;
+  onDidDestroyPreview(
+    callback: (event: PreviewLifecycleEvent) => void,
+  ): Disposable;
+  onDidRenderPreview(callback: (event: PreviewRenderEvent) => void): Disposable;
+  onDidScrollPreview(callback: (event: PreviewScrollEvent) => void): Disposable;
+}
+
+/**
+ * What the service needs from the package.
+ */
+export interface ServiceHost {
+  getConfig(): MarkdownPreviewEnhancedConfig;
+  startPreview(editor: TextEditor): void;
+  getPreviewForEditor(editor: TextEditor): MarkdownPreviewEnhancedView;
+}
+
+/**
+ * Collects the events of all previews, and provides the service.
+ */
+export class PreviewService {
+  private host: ServiceHost;
+  private emitter = new Emitter();
+
+  constructor(host: ServiceHost) {
+    this.host = host;
+  }
+
+  /**
+   * Forward the events of `preview`, which was just created.
+   * @param preview
+   */
+  public addPreview(preview: MarkdownPreviewEnhancedView) {
+    const getLifecycleEvent = (): PreviewLifecycleEvent => ({
+      uri: preview.getURI(),
+      sourceUri: preview.getBuffer()
+        ? MarkdownPreviewEnhancedView.getSourceUri(preview.getBuffer())
+        : preview.getFilePath() || "",
+    });
+    this.emitter.emit("did-open-preview", getLifecycleEvent());
+
+    preview.onDidRender((event) =>
+      this.emitter.emit("did-render-preview", event),
+    );
+    preview.onDidScroll((event) =>
+      this.emitter.emit("did-scroll-preview", event),
+    );
+    preview.onDidDestroy(() =>
+      this.emitter.emit("did-destroy-preview", getLifecycleEvent()),
+    );
+  }
+
+  public provide(): MarkdownPreviewEnhancedService {
+    const host = this.host;
+    return {
+      version: SERVICE_VERSION,
+      async parseMarkdown(text, filePath, options = {}) {
+        const engine = await MarkdownPreviewEnhancedView.getEngineForFilePath(
+          filePath,
+          host.getConfig(),
+        );
+        const { html, tocHTML, yamlConfig } = await engine.parseMD(text, {
+          useRelativeFilePath: !!options.useRelativeFilePath,
+          hideFrontMatter: options.hideFrontMatter !== false,
+          isForPreview: false,
+        });
+        return { html, tocHTML, yamlConfig };
+      },
+      openPreview(editor) {
+        host.startPreview(editor);
+      },
+      runAllCodeChunks(editor) {
+        const preview = host.getPreviewForEditor(editor);
+        if (!preview || preview.getEditor() !== editor) {
+          return Promise.reject(new Error("The editor has no preview."));
+        }
+        return preview.runAllCodeChunks();
+      },
+      getExportFormats() {
+        return EXPORT_FORMATS.map(({ format }) => format);
+      },
+      async exportFile(filePath, format, options = {}) {
+        if (!getExportFormatInfo(format)) {
+          throw new Error(`Unknown export format: ${format}`);
+        }
+        const config = host.getConfig();
+        return exportJobManager.run(
+          filePath,
+          format,
+          () =>
+            MarkdownPreviewEnhancedView.getEngineForFilePath(filePath, config),
+          { notify: !!options.notify },
+        );
+      },
+      onDidOpenPreview: (callback) =>
+        this.emitter.on("did-open-preview", callback),
+      onDidDestroyPreview: (callback) =>
+        this.emitter.on("did-destroy-preview", callback),
+      onDidRenderPreview: (callback) =>
+        this.emitter.on("did-render-preview", callback),
+      onDidScrollPreview: (callback) =>
+        this.emitter.on("did-scroll-preview", callback),
+    };
+  }
+}
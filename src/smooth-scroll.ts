@@ -0,0 +1,68 @@
+export interface SmoothScrollOptions {
+  getScrollTop: () => number;
+  setScrollTop: (scrollTop: number) => void;
+  /**
+   * The scroll top to scroll to.
+   */
+  to: number;
+  /**
+   * Duration of the animation in milliseconds.
+   * The scroll top is set at once if it is 0.
+   */
+  duration: number;
+  /**
+   * Called when the animation finished. Not called if it was stopped.
+   */
+  onDone?: () => void;
+}
+
+/**
+ * Animate a scroll position from its current value to `options.to`.
+ * Returns a function that stops the animation.
+ *
+ * This routine is shared by the editor and the preview: it is injected into
+ * the preview webview as source code, so it must not reference anything
+ * outside of its own body.
+ * @param options
+ */
+export function smoothScroll(options: SmoothScrollOptions): () => void {
+  const from = options.getScrollTop();
+  const distance = options.to - from;
+  let frame = null;
+  let startTime = null;
+
+  const done = () => {
+    frame = null;
+    if (options.onDone) {
+      options.onDone();
+    }
+  };
+  const stop = () => {
+    if (frame !== null) {
+      cancelAnimationFrame(frame);
+      frame = null;
+    }
+  };
+
+  if (options.duration <= 0 || Math.abs(distance) < 1) {
+    options.setScrollTop(options.to);
+    done();
+    return stop;
+  }
+
+  const step = (time: number) => {
+    if (startTime === null) {
+      startTime = time;
+    }
+    const progress = Math.min(1, (time - startTime) / options.duration);
+    // ease out cubic
+    options.setScrollTop(from + distance * (1 - Math.pow(1 - progress, 3)));
+    if (progress < 1) {
+      frame = requestAnimationFrame(step);
+    } else {
+      done();
+    }
+  };
+  frame = requestAnimationFrame(step);
+  return stop;
+}
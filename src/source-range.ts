@@ -0,0 +1,161 @@
+import { Range } from "atom";
+
+/**
+ * A preview element that was double clicked, as reported by the webview.
+ */
+export interface SourceTarget {
+  kind: "heading" | "paragraph" | "list-item" | "table-cell" | "fence";
+  /**
+   * The `data-line` of the element, or of the table row for `table-cell`.
+   */
+  line: number;
+  /**
+   * Index of the cell in the row, for `table-cell`.
+   */
+  cellIndex?: number;
+  /**
+   * Where the element is in the preview, 0 is the top and 1 the bottom.
+   */
+  topRatio: number;
+}
+
+const FENCE_REGEX = /^(\s*)(`{3,}|~{3,})/;
+const LIST_ITEM_REGEX = /^(\s*)([*+-]|\d+[.)])(\s+|$)/;
+const SETEXT_UNDERLINE_REGEX = /^\s{0,3}(=+|-+)\s*$/;
+
+function isBlank(line: string) {
+  return !line.trim();
+}
+
+function getIndentation(line: string) {
+  return line.match(/^\s*/)[0].length;
+}
+
+/**
+ * Get the range from the first non-blank character of `startRow` to the
+ * end of `endRow`.
+ */
+function getLinesRange(lines: string[], startRow: number, endRow: number) {
+  return new Range(
+    [startRow, getIndentation(lines[startRow])],
+    [endRow, lines[endRow].length],
+  );
+}
+
+function getHeadingRange(lines: string[], row: number) {
+  if (
+    row + 1 < lines.length &&
+    !/^\s*#/.test(lines[row]) &&
+    SETEXT_UNDERLINE_REGEX.test(lines[row + 1])
+  ) {
+    return getLinesRange(lines, row, row + 1);
+  }
+  return getLinesRange(lines, row, row);
+}
+
+function getParagraphRange(lines: string[], row: number) {
+  let endRow = row;
+  while (endRow + 1 < lines.length && !isBlank(lines[endRow + 1])) {
+    endRow++;
+  }
+  return getLinesRange(lines, row, endRow);
+}
+
+function getListItemRange(lines: string[], row: number) {
+  const match = lines[row].match(LIST_ITEM_REGEX);
+  if (!match) {
+    return getParagraphRange(lines, row);
+  }
+  const indentation = match[1].length;
+
+  // the item ends before the next line that is not indented more than its
+  // marker, trailing blank lines excluded.
+  let endRow = row;
+  for (let i = row + 1; i < lines.length; i++) {
+    if (isBlank(lines[i])) {
+      continue;
+    }
+    if (getIndentation(lines[i]) <= indentation) {
+      // lazy continuation line of the paragraph
+      if (!isBlank(lines[i - 1]) && !LIST_ITEM_REGEX.test(lines[i])) {
+        endRow = i;
+        continue;
+      }
+      break;
+    }
+    endRow = i;
+  }
+  return getLinesRange(lines, row, endRow);
+}
+
+function getFenceRange(lines: string[], row: number) {
+  const match = lines[row].match(FENCE_REGEX);
+  if (!match) {
+    return getParagraphRange(lines, row);
+  }
+  const fence = match[2];
+  const closingRegex = new RegExp(`^\\s*${fence[0]}{${fence.length},}\\s*$`);
+  for (let i = row + 1; i < lines.length; i++) {
+    if (closingRegex.test(lines[i])) {
+      return getLinesRange(lines, row, i);
+    }
+  }
+  // unclosed fences go to the end of the document
+  return getLinesRange(lines, row, lines.length - 1);
+}
+
+function getTableCellRange(lines: string[], row: number, cellIndex: number) {
+  const line = lines[row];
+  // start and end columns of the cells, pipes escaped by `\` excluded.
+  const pipes: number[] = [];
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === "\\") {
+      i++;
+    } else if (line[i] === "|") {
+      pipes.push(i);
+    }
+  }
+  const bounds = [-1].concat(pipes, [line.length]);
+  // skip the empty cell before a leading pipe
+  if (pipes.length && !line.slice(0, pipes[0]).trim()) {
+    bounds.shift();
+  }
+  if (cellIndex + 1 >= bounds.length) {
+    return getLinesRange(lines, row, row);
+  }
+
+  let start = bounds[cellIndex] + 1;
+  let end = bounds[cellIndex + 1];
+  while (start < end && /\s/.test(line[start])) {
+    start++;
+  }
+  while (end > start && /\s/.test(line[end - 1])) {
+    end--;
+  }
+  return new Range([row, start], [row, end]);
+}
+
+/**
+ * Get the source range of the preview element described by `target`,
+ * or `null` if its line is out of the document.
+ * @param lines The lines of the markdown source
+ * @param target
+ */
+export function getSourceRange(lines: string[], target: SourceTarget): Range {
+  const row = target.line;
+  if (!(row >= 0 && row < lines.length)) {
+    return null;
+  }
+  switch (target.kind) {
+    case "heading":
+      return getHeadingRange(lines, row);
+    case "list-item":
+      return getListItemRange(lines, row);
+    case "table-cell":
+      return getTableCellRange(lines, row, target.cellIndex || 0);
+    case "fence":
+      return getFenceRange(lines, row);
+    default:
+      return getParagraphRange(lines, row);
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * The preview state remembered for each markdown file.
+ */
+export interface DocumentViewState {
+  zoomLevel: number;
+  /**
+   * The source line that the preview was scrolled to.
+   */
+  previewLine: number;
+  /**
+   * Where `previewLine` is in the preview, 0 is the top and 1 the bottom.
+   */
+  previewTopRatio: number;
+}
+
+/**
+ * Key of the `localStorage` item that stores the states.
+ */
+const STORAGE_KEY = "markdown-preview-enhanced:document-view-states";
+const MAX_ENTRIES = 200;
+const SAVE_DELAY = 1000;
+
+/**
+ * Key is markdown file path
+ * Value is the view state.
+ * Keys are ordered from the least to the most recently used.
+ */
+let VIEW_STATES: { [key: string]: DocumentViewState } = null;
+let saveTimeout = null;
+
+function loadViewStates() {
+  if (!VIEW_STATES) {
+    try {
+      VIEW_STATES = JSON.parse(localStorage.getItem(STORAGE_KEY)) || {};
+    } catch (error) {
+      VIEW_STATES = {};
+    }
+  }
+  return VIEW_STATES;
+}
+
+/**
+ * Save the states to `localStorage`.
+ * Saving is delayed, as the scroll position changes very often.
+ */
+function saveViewStates() {
+  if (saveTimeout) {
+    return;
+  }
+  saveTimeout = setTimeout(() => {
+    saveTimeout = null;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(VIEW_STATES));
+  }, SAVE_DELAY);
+}
+
+/**
+ * Get the remembered view state of `filePath`, or `null`.
+ * @param filePath
+ */
+export function getDocumentViewState(filePath: string): DocumentViewState {
+  return loadViewStates()[filePath] || null;
+}
+
+/**
+ * Remember the view state of `filePath`.
+ * Only the fields in `state` are updated.
+ * @param filePath
+ * @param state
+ */
+export function setDocumentViewState(
+  filePath: string,
+  state: Partial<DocumentViewState>,
+) {
+  if (!filePath) {
+    return;
+  }
+  const viewStates = loadViewStates();
+  const viewState: DocumentViewState = Object.assign(
+    { zoomLevel: 1, previewLine: 0, previewTopRatio: 0 },
+    viewStates[filePath],
+    state,
+  );
+
+  // move to the end, as the most recently used
+  delete viewStates[filePath];
+  viewStates[filePath] = viewState;
+
+  const filePaths = Object.keys(viewStates);
+  for (let i = 0; i < filePaths.length - MAX_ENTRIES; i++) {
+    delete viewStates[filePaths[i]];
+  }
+  saveViewStates();
+}
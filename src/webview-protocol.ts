@@ -0,0 +1,249 @@
+/**
+ * The messages exchanged between `MarkdownPreviewEnhancedView` and the
+ * scripts of its webview, both ours (webview-script.ts) and the default
+ * `mume` webview script.
+ *
+ * Messages sent by the webview are `{ command, args: [sourceUri, ...] }`.
+ * They are checked against the schema of their command before they are
+ * dispatched, so that changes of the `mume` webview script are reported
+ * instead of silently breaking the preview.
+ */
+import { HTMLPatch } from "./html-patch";
+
+/**
+ * Version of the protocol.
+ * Increase it when a message is changed or removed.
+ */
+export const PROTOCOL_VERSION = 1;
+
+export type ArgumentType =
+  | "string"
+  | "number"
+  | "boolean"
+  | "object"
+  | "array"
+  | "any";
+
+export interface ArgumentSchema {
+  name: string;
+  type: ArgumentType;
+  optional?: boolean;
+}
+
+/**
+ * The arguments of a message, after `sourceUri`.
+ */
+export type MessageSchema = ArgumentSchema[];
+
+/**
+ * Arguments of the messages sent by the webview, after `sourceUri`.
+ */
+export interface WebviewMessageArgs {
+  mpeHandshake: [number];
+  webviewFinishLoading: [];
+  refreshPreview: [];
+  revealLine: [number];
+  mpeDidScroll: [number, number];
+  mpeSelectSource: [any];
+  mpeRequestFullUpdate: [];
+  mpeRevealBlocks: [number[]];
+  insertImageUrl: [string];
+  pasteImageFile: [string];
+  uploadImageFile: [string, string];
+  openInBrowser: [];
+  htmlExport: [boolean];
+  chromeExport: [string];
+  princeExport: [];
+  eBookExport: [string];
+  pandocExport: [];
+  markdownExport: [];
+  cacheCodeChunkResult: [string, string];
+  runCodeChunk: [string];
+  runAllCodeChunks: [];
+  clickTagA: [string];
+  clickTaskListCheckbox: [number];
+  setZoomLevel: [number];
+  showUploadedImageHistory: [];
+}
+
+export type WebviewCommand = keyof WebviewMessageArgs;
+
+export const WEBVIEW_MESSAGE_SCHEMAS: {
+  [C in WebviewCommand]: MessageSchema;
+} = {
+  mpeHandshake: [{ name: "version", type: "number" }],
+  webviewFinishLoading: [],
+  refreshPreview: [],
+  revealLine: [{ name: "line", type: "number" }],
+  mpeDidScroll: [
+    { name: "line", type: "number" },
+    { name: "topRatio", type: "number" },
+  ],
+  mpeSelectSource: [{ name: "target", type: "object" }],
+  mpeRequestFullUpdate: [],
+  mpeRevealBlocks: [{ name: "lines", type: "array" }],
+  insertImageUrl: [{ name: "imageUrl", type: "string" }],
+  pasteImageFile: [{ name: "imageUrl", type: "string" }],
+  uploadImageFile: [
+    { name: "imageUrl", type: "string" },
+    { name: "imageUploader", type: "string" },
+  ],
+  openInBrowser: [],
+  htmlExport: [{ name: "offline", type: "boolean", optional: true }],
+  chromeExport: [{ name: "fileType", type: "string" }],
+  princeExport: [],
+  eBookExport: [{ name: "fileType", type: "string" }],
+  pandocExport: [],
+  markdownExport: [],
+  cacheCodeChunkResult: [
+    { name: "id", type: "string" },
+    { name: "result", type: "string" },
+  ],
+  runCodeChunk: [{ name: "codeChunkId", type: "string" }],
+  runAllCodeChunks: [],
+  clickTagA: [{ name: "href", type: "string" }],
+  clickTaskListCheckbox: [{ name: "dataLine", type: "number" }],
+  setZoomLevel: [{ name: "zoomLevel", type: "number" }],
+  showUploadedImageHistory: [],
+};
+
+/**
+ * Messages sent to the webview by `MarkdownPreviewEnhancedView.postMessage`.
+ */
+export type HostMessage =
+  | { command: "mpeHandshake"; version: number }
+  | { command: "startParsingMarkdown" }
+  | {
+      command: "updateHTML";
+      html: string;
+      tocHTML: string;
+      totalLineCount: number;
+      sourceUri: string;
+      id: string;
+      class: string;
+    }
+  | HTMLPatch & {
+      command: "mpePatchHTML";
+      tocHTML: string;
+      totalLineCount: number;
+      sourceUri: string;
+    }
+  | {
+      command: "mpeScrollToLine";
+      line: number;
+      topRatio: number;
+      animate: boolean;
+    }
+  | {
+      command: "mpeRenderProgress";
+      /**
+       * `viewport` once the sections around the visible range of the editor
+       * are shown, `done` once the whole document is.
+       */
+      phase: "viewport" | "done";
+      startLine: number;
+      endLine: number;
+      totalLineCount: number;
+      deferredBlockCount: number;
+    }
+  | { command: "mpeFind" }
+  // sic, that's the command of the `mume` webview script.
+  | { command: "zommIn" }
+  | { command: "zoomOut" }
+  | { command: "resetZoom" }
+  | { command: "scrollPreviewToTop" }
+  | { command: "previewSyncSource" }
+  | { command: "escPressed" }
+  | { command: "copy" }
+  | { command: "runCodeChunk" }
+  | { command: "openImageHelper" };
+
+/**
+ * A message from the webview whose arguments matched its schema.
+ */
+export interface WebviewMessage {
+  command: string;
+  sourceUri: string;
+  args: any[];
+}
+
+/**
+ * Check `value` against `schema`, and return it.
+ * Numbers sent as strings, such as `data-line` attributes, are converted.
+ * Throws if it doesn't match.
+ * @param value
+ * @param schema
+ */
+function checkArgument(value: any, schema: ArgumentSchema) {
+  if (value === undefined || value === null) {
+    if (schema.optional) {
+      return value;
+    }
+    throw new Error(`\`${schema.name}\` is missing`);
+  }
+  switch (schema.type) {
+    case "number":
+      if (typeof value === "string" && value.trim() && isFinite(+value)) {
+        return +value;
+      }
+      if (typeof value !== "number" || !isFinite(value)) {
+        throw new Error(`\`${schema.name}\` must be a number`);
+      }
+      return value;
+    case "object":
+      if (typeof value !== "object" || Array.isArray(value)) {
+        throw new Error(`\`${schema.name}\` must be an object`);
+      }
+      return value;
+    case "array":
+      if (!Array.isArray(value)) {
+        throw new Error(`\`${schema.name}\` must be an array`);
+      }
+      return value;
+    case "any":
+      return value;
+    default:
+      if (typeof value !== schema.type) {
+        throw new Error(`\`${schema.name}\` must be a ${schema.type}`);
+      }
+      return value;
+  }
+}
+
+/**
+ * Validate the data of a message sent by the webview.
+ * Extra arguments are ignored.
+ * Throws if the message is malformed or its command unknown.
+ * @param data
+ * @param getSchema Get the schema of a command, or `undefined` if unknown
+ */
+export function parseWebviewMessage(
+  data: any,
+  getSchema: (command: string) => MessageSchema,
+): WebviewMessage {
+  if (!data || typeof data !== "object" || typeof data.command !== "string") {
+    throw new Error("Malformed message from the preview: no `command`");
+  }
+  const command: string = data.command;
+  const schema = getSchema(command);
+  if (!schema) {
+    throw new Error(`Unknown message \`${command}\` from the preview`);
+  }
+  const args = data.args;
+  if (!Array.isArray(args) || typeof args[0] !== "string") {
+    throw new Error(
+      `Malformed message \`${command}\` from the preview: no \`sourceUri\``,
+    );
+  }
+  try {
+    return {
+      command,
+      sourceUri: args[0],
+      args: schema.map((argument, i) => checkArgument(args[i + 1], argument)),
+    };
+  } catch (error) {
+    throw new Error(
+      `Malformed message \`${command}\` from the preview: ${error.message}`,
+    );
+  }
+}
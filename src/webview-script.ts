@@ -0,0 +1,948 @@
+/**
+ * Scripts that run inside the preview webview, next to the default `mume`
+ * webview script.
+ *
+ * The functions in this file are injected into the preview html as source
+ * code (see `getWebviewScriptHTML`), so they must not reference anything
+ * outside of their own body. They share state through `WebviewContext`.
+ */
+import { SCROLL_DURATION } from "./scroll-sync";
+import { smoothScroll } from "./smooth-scroll";
+import { SourceTarget } from "./source-range";
+import { PROTOCOL_VERSION } from "./webview-protocol";
+
+/**
+ * Style of the elements created by the webview features.
+ */
+const WEBVIEW_STYLE = `
+.mpe-find-bar {
+  position: fixed;
+  top: 8px;
+  right: 16px;
+  z-index: 1000;
+  display: flex;
+  align-items: center;
+  padding: 4px;
+  font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif;
+  font-size: 13px;
+  color: #333;
+  background-color: #f7f7f7;
+  border: 1px solid #ccc;
+  border-radius: 3px;
+  box-shadow: 0 2px 6px rgba(0, 0, 0, 0.2);
+}
+.mpe-find-bar input {
+  width: 180px;
+  padding: 2px 4px;
+  font-size: 13px;
+}
+.mpe-find-bar button {
+  min-width: 24px;
+  margin-left: 2px;
+  padding: 2px 4px;
+  font-size: 13px;
+  color: inherit;
+  background: none;
+  border: 1px solid transparent;
+  border-radius: 3px;
+  cursor: pointer;
+}
+.mpe-find-bar button:hover,
+.mpe-find-bar button.mpe-find-active {
+  border-color: #999;
+}
+.mpe-find-count {
+  min-width: 64px;
+  margin: 0 6px;
+  color: #777;
+  text-align: center;
+}
+.mpe-find-count.mpe-find-error {
+  color: #c00;
+}
+mark.mpe-find-match {
+  color: inherit;
+  background-color: rgba(255, 215, 0, 0.5);
+}
+mark.mpe-find-match.mpe-find-current {
+  background-color: rgba(255, 140, 0, 0.8);
+}
+.mpe-deferred-block {
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  min-height: 120px;
+  margin-bottom: 16px;
+  color: #999;
+  border: 1px dashed #ccc;
+  border-radius: 3px;
+}
+.mpe-deferred-block::after {
+  content: "The " attr(data-mpe-kind) " is rendered when scrolled into view";
+}
+.mpe-render-progress {
+  position: fixed;
+  bottom: 8px;
+  left: 16px;
+  z-index: 1000;
+  padding: 4px 8px;
+  font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif;
+  font-size: 12px;
+  color: #333;
+  background-color: #f7f7f7;
+  border: 1px solid #ccc;
+  border-radius: 3px;
+  box-shadow: 0 2px 6px rgba(0, 0, 0, 0.2);
+}
+`;
+
+export interface WebviewScriptOptions {
+  sourceUri: string;
+  scrollDuration: number;
+  /**
+   * `PROTOCOL_VERSION` of the host that generated the preview.
+   */
+  protocolVersion: number;
+  /**
+   * `false` in the pages of the preview server, which have no host to send
+   * messages to. Default is `true`.
+   */
+  hasHost?: boolean;
+}
+
+export interface WebviewContext {
+  options: WebviewScriptOptions;
+  smoothScroll: typeof smoothScroll;
+  /**
+   * The `.mume.markdown-preview` element, or `null` before it is created.
+   */
+  getPreviewElement(): HTMLElement;
+  /**
+   * The element that scrolls the preview.
+   */
+  getScrollElement(): HTMLElement;
+  /**
+   * Get the offset of `element` from the top of the scrolled content.
+   */
+  getElementTop(element: Element): number;
+  /**
+   * Send a message to `MarkdownPreviewEnhancedView`.
+   * `sourceUri` is prepended to `args`.
+   */
+  postMessageToHost(command: string, args: any[]): void;
+  /**
+   * Handle a message sent by `MarkdownPreviewEnhancedView.postMessage`.
+   * Handlers run before the `mume` webview script. If one returns `true`,
+   * the message is not passed to the `mume` webview script.
+   */
+  onHostMessage(command: string, handler: (data: any) => boolean | void): void;
+}
+
+/**
+ * Create the context shared by the webview features.
+ * @param options
+ * @param smoothScrollFunction
+ */
+export function createWebviewContext(
+  options: WebviewScriptOptions,
+  smoothScrollFunction: typeof smoothScroll,
+): WebviewContext {
+  const handlers: { [key: string]: Array<(data: any) => boolean | void> } = {};
+
+  window.addEventListener("message", (event) => {
+    const data = event.data;
+    if (!data || !handlers[data.command]) {
+      return;
+    }
+    const commandHandlers = handlers[data.command];
+    let handled = false;
+    for (let i = 0; i < commandHandlers.length; i++) {
+      if (commandHandlers[i](data) === true) {
+        handled = true;
+      }
+    }
+    if (handled) {
+      event.stopImmediatePropagation();
+    }
+  });
+
+  const context: WebviewContext = {
+    options,
+    smoothScroll: smoothScrollFunction,
+    getPreviewElement() {
+      return document.querySelector(".mume.markdown-preview") as HTMLElement;
+    },
+    getScrollElement() {
+      const previewElement = context.getPreviewElement();
+      if (previewElement) {
+        const overflowY = getComputedStyle(previewElement).overflowY;
+        if (overflowY === "auto" || overflowY === "scroll") {
+          return previewElement;
+        }
+      }
+      return document.scrollingElement as HTMLElement;
+    },
+    getElementTop(element) {
+      const scrollElement = context.getScrollElement();
+      const containerTop =
+        scrollElement === document.scrollingElement
+          ? 0
+          : scrollElement.getBoundingClientRect().top;
+      return (
+        element.getBoundingClientRect().top -
+        containerTop +
+        scrollElement.scrollTop
+      );
+    },
+    postMessageToHost(command, args) {
+      if (options.hasHost === false) {
+        return;
+      }
+      window.parent.postMessage(
+        { command, args: [options.sourceUri].concat(args) },
+        "file://",
+      );
+    },
+    onHostMessage(command, handler) {
+      handlers[command] = handlers[command] || [];
+      handlers[command].push(handler);
+    },
+  };
+
+  // tell the host which protocol this script speaks, it answers with its own.
+  context.onHostMessage("mpeHandshake", (data) => {
+    if (data.version !== options.protocolVersion) {
+      // tslint:disable-next-line:no-console
+      console.warn(
+        `markdown-preview-enhanced: the host uses version ${data.version} ` +
+          `of the message protocol instead of ${options.protocolVersion}`,
+      );
+    }
+    return true;
+  });
+  context.postMessageToHost("mpeHandshake", [options.protocolVersion]);
+  return context;
+}
+
+/**
+ * Scroll sync between the preview and the editor.
+ *
+ * The preview keeps a map from source lines to the offsets of the elements
+ * with a `data-line` attribute, and interpolates between them, so that
+ * fractional source lines can be exchanged with the editor.
+ * Scrolls caused by the editor are not reported back while they animate.
+ * @param context
+ */
+export function initScrollSync(context: WebviewContext) {
+  let lineMap: Array<{ line: number; top: number }> = null;
+  let totalLineCount = 0;
+  let stopAnimation: () => void = null;
+  let scrollLockedUntil = 0;
+  let reportFrame = null;
+
+  const getLineMap = () => {
+    if (lineMap) {
+      return lineMap;
+    }
+    lineMap = [];
+    const previewElement = context.getPreviewElement();
+    if (!previewElement) {
+      return lineMap;
+    }
+    const elements = previewElement.querySelectorAll("[data-line]");
+    for (let i = 0; i < elements.length; i++) {
+      const element = elements[i] as HTMLElement;
+      const line = parseInt(element.getAttribute("data-line"), 10);
+      if (isNaN(line) || !element.offsetParent) {
+        continue;
+      }
+      const top = context.getElementTop(element);
+      const last = lineMap[lineMap.length - 1];
+      // nested and floated elements must not break the order of the map
+      if (last && (line <= last.line || top < last.top)) {
+        continue;
+      }
+      lineMap.push({ line, top });
+    }
+    return lineMap;
+  };
+
+  const getEndOfMap = (map: Array<{ line: number; top: number }>) => {
+    const last = map[map.length - 1];
+    return {
+      line: Math.max(totalLineCount, last ? last.line + 1 : 1),
+      top: context.getScrollElement().scrollHeight,
+    };
+  };
+
+  /**
+   * Get the offset of the fractional source `line`.
+   */
+  const lineToOffset = (line: number) => {
+    const map = getLineMap();
+    let start = { line: 0, top: 0 };
+    let end = getEndOfMap(map);
+    for (let i = 0; i < map.length; i++) {
+      if (map[i].line > line) {
+        end = map[i];
+        break;
+      }
+      start = map[i];
+    }
+    if (end.line <= start.line) {
+      return start.top;
+    }
+    return (
+      start.top +
+      ((end.top - start.top) * (line - start.line)) / (end.line - start.line)
+    );
+  };
+
+  /**
+   * Get the fractional source line at `offset`.
+   */
+  const offsetToLine = (offset: number) => {
+    const map = getLineMap();
+    let start = { line: 0, top: 0 };
+    let end = getEndOfMap(map);
+    for (let i = 0; i < map.length; i++) {
+      if (map[i].top > offset) {
+        end = map[i];
+        break;
+      }
+      start = map[i];
+    }
+    if (end.top <= start.top) {
+      return start.line;
+    }
+    return (
+      start.line +
+      ((end.line - start.line) * (offset - start.top)) / (end.top - start.top)
+    );
+  };
+
+  const invalidateLineMap = () => {
+    lineMap = null;
+  };
+
+  const didUpdateHTML = (data) => {
+    totalLineCount = data.totalLineCount || 0;
+    invalidateLineMap();
+  };
+  context.onHostMessage("updateHTML", didUpdateHTML);
+  context.onHostMessage("mpePatchHTML", didUpdateHTML);
+
+  context.onHostMessage("mpeScrollToLine", (data) => {
+    const scrollElement = context.getScrollElement();
+    const to = Math.max(
+      0,
+      lineToOffset(data.line) - data.topRatio * scrollElement.clientHeight,
+    );
+    if (stopAnimation) {
+      stopAnimation();
+    }
+    scrollLockedUntil = Infinity;
+    stopAnimation = context.smoothScroll({
+      getScrollTop: () => scrollElement.scrollTop,
+      setScrollTop: (scrollTop) => {
+        scrollElement.scrollTop = scrollTop;
+      },
+      to,
+      duration: data.animate ? context.options.scrollDuration : 0,
+      onDone: () => {
+        stopAnimation = null;
+        // the last scroll event is dispatched after the animation frame
+        scrollLockedUntil = Date.now() + 50;
+      },
+    });
+    return true;
+  });
+
+  const reportScroll = () => {
+    reportFrame = null;
+    const scrollElement = context.getScrollElement();
+    const scrollTop = scrollElement.scrollTop;
+    if (
+      scrollTop > 0 &&
+      scrollTop + scrollElement.clientHeight >= scrollElement.scrollHeight - 1
+    ) {
+      // keep the end of both documents aligned
+      context.postMessageToHost("mpeDidScroll", [
+        offsetToLine(scrollElement.scrollHeight),
+        1,
+      ]);
+    } else {
+      context.postMessageToHost("mpeDidScroll", [offsetToLine(scrollTop), 0]);
+    }
+  };
+
+  // `scroll` doesn't bubble, so it is listened to in the capture phase.
+  window.addEventListener(
+    "scroll",
+    () => {
+      if (Date.now() < scrollLockedUntil || reportFrame !== null) {
+        return;
+      }
+      reportFrame = requestAnimationFrame(reportScroll);
+    },
+    true,
+  );
+
+  // images and fonts change the offsets after they load
+  window.addEventListener("load", invalidateLineMap, true);
+  window.addEventListener("resize", invalidateLineMap);
+  document.addEventListener("DOMContentLoaded", () => {
+    new MutationObserver(invalidateLineMap).observe(document.body, {
+      childList: true,
+      subtree: true,
+    });
+  });
+}
+
+/**
+ * Double clicking a block of the preview selects its source in the editor.
+ * The block is reported with `mpeSelectSource`, and its source range is
+ * computed by `getSourceRange`.
+ * @param context
+ */
+export function initSourceSelection(context: WebviewContext) {
+  const getKind = (element: Element): SourceTarget["kind"] => {
+    const tagName = element.tagName;
+    if (/^H[1-6]$/.test(tagName)) {
+      return "heading";
+    } else if (tagName === "LI") {
+      return "list-item";
+    } else if (
+      tagName === "PRE" ||
+      element.classList.contains("code-chunk") ||
+      element.querySelector("pre")
+    ) {
+      return "fence";
+    } else {
+      return "paragraph";
+    }
+  };
+
+  document.addEventListener("dblclick", (event) => {
+    const target = event.target as Element;
+    if (!target || !target.closest) {
+      return;
+    }
+    const cell = target.closest("td, th");
+    const row = cell && cell.closest("tr[data-line]");
+    const element = row || target.closest("[data-line]");
+    if (!element) {
+      return;
+    }
+    const line = parseInt(element.getAttribute("data-line"), 10);
+    if (isNaN(line)) {
+      return;
+    }
+    const scrollElement = context.getScrollElement();
+    const topRatio =
+      (context.getElementTop(element) - scrollElement.scrollTop) /
+      scrollElement.clientHeight;
+
+    const sourceTarget: SourceTarget = row
+      ? {
+          kind: "table-cell",
+          line,
+          cellIndex: (cell as HTMLTableCellElement).cellIndex,
+          topRatio,
+        }
+      : { kind: getKind(element), line, topRatio };
+    context.postMessageToHost("mpeSelectSource", [sourceTarget]);
+  });
+}
+
+/**
+ * The find bar of the preview, opened by `mpeFind`.
+ * Matches are highlighted with `<mark>` elements. A match can't span several
+ * text nodes, e.g. `**bold**` and plain text.
+ * @param context
+ */
+export function initFindInPreview(context: WebviewContext) {
+  let findBar: HTMLElement = null;
+  let input: HTMLInputElement = null;
+  let countElement: HTMLElement = null;
+  let caseSensitive = false;
+  let useRegex = false;
+  let marks: HTMLElement[] = [];
+  let currentIndex = -1;
+
+  const clearMarks = () => {
+    for (let i = 0; i < marks.length; i++) {
+      const mark = marks[i];
+      const parent = mark.parentNode;
+      if (parent) {
+        parent.replaceChild(document.createTextNode(mark.textContent), mark);
+        parent.normalize();
+      }
+    }
+    marks = [];
+    currentIndex = -1;
+  };
+
+  const getRegExp = () => {
+    const flags = caseSensitive ? "g" : "gi";
+    const source = useRegex
+      ? input.value
+      : input.value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    return new RegExp(source, flags);
+  };
+
+  const highlightTextNode = (node: Text, regExp: RegExp) => {
+    const text = node.data;
+    const ranges: Array<[number, number]> = [];
+    regExp.lastIndex = 0;
+    let match = regExp.exec(text);
+    while (match) {
+      if (!match[0].length) {
+        // don't loop forever on empty matches
+        regExp.lastIndex++;
+      } else {
+        ranges.push([match.index, match.index + match[0].length]);
+      }
+      match = regExp.exec(text);
+    }
+    // wrap from the end, so that the offsets of the ranges stay valid
+    const nodeMarks: HTMLElement[] = [];
+    for (let i = ranges.length - 1; i >= 0; i--) {
+      const matchNode = node.splitText(ranges[i][0]);
+      matchNode.splitText(ranges[i][1] - ranges[i][0]);
+      const mark = document.createElement("mark");
+      mark.className = "mpe-find-match";
+      matchNode.parentNode.replaceChild(mark, matchNode);
+      mark.appendChild(matchNode);
+      nodeMarks.unshift(mark);
+    }
+    marks = marks.concat(nodeMarks);
+  };
+
+  const updateCount = (error?: string) => {
+    countElement.classList.toggle("mpe-find-error", !!error);
+    if (error) {
+      countElement.textContent = error;
+    } else if (!input.value) {
+      countElement.textContent = "";
+    } else if (!marks.length) {
+      countElement.textContent = "No results";
+    } else {
+      countElement.textContent = `${currentIndex + 1} of ${marks.length}`;
+    }
+  };
+
+  const selectMatch = (index: number) => {
+    if (currentIndex >= 0 && marks[currentIndex]) {
+      marks[currentIndex].classList.remove("mpe-find-current");
+    }
+    if (!marks.length) {
+      currentIndex = -1;
+      return updateCount();
+    }
+    currentIndex = (index + marks.length) % marks.length;
+    const mark = marks[currentIndex];
+    mark.classList.add("mpe-find-current");
+    mark.scrollIntoView({ block: "center" });
+    updateCount();
+  };
+
+  const search = () => {
+    clearMarks();
+    const previewElement = context.getPreviewElement();
+    if (!input.value || !previewElement) {
+      return updateCount();
+    }
+    let regExp: RegExp;
+    try {
+      regExp = getRegExp();
+    } catch (error) {
+      return updateCount("Invalid regular expression");
+    }
+
+    const textNodes: Text[] = [];
+    const walker = document.createTreeWalker(
+      previewElement,
+      NodeFilter.SHOW_TEXT,
+      null,
+      false,
+    );
+    while (walker.nextNode()) {
+      const parentElement = walker.currentNode.parentElement;
+      if (parentElement && !parentElement.closest("script, style")) {
+        textNodes.push(walker.currentNode as Text);
+      }
+    }
+    for (let i = 0; i < textNodes.length; i++) {
+      highlightTextNode(textNodes[i], regExp);
+    }
+    selectMatch(0);
+  };
+
+  const createToggle = (label: string, title: string, onToggle) => {
+    const button = document.createElement("button");
+    button.textContent = label;
+    button.title = title;
+    button.addEventListener("click", () => {
+      button.classList.toggle("mpe-find-active", onToggle());
+      search();
+      input.focus();
+    });
+    return button;
+  };
+
+  const createButton = (label: string, title: string, onClick) => {
+    const button = document.createElement("button");
+    button.textContent = label;
+    button.title = title;
+    button.addEventListener("click", () => {
+      onClick();
+      input.focus();
+    });
+    return button;
+  };
+
+  const createFindBar = () => {
+    findBar = document.createElement("div");
+    findBar.className = "mpe-find-bar";
+
+    input = document.createElement("input");
+    input.type = "text";
+    input.placeholder = "Find in preview";
+    input.addEventListener("input", search);
+    input.addEventListener("keydown", (event) => {
+      if (event.key === "Enter") {
+        event.preventDefault();
+        selectMatch(currentIndex + (event.shiftKey ? -1 : 1));
+      }
+    });
+
+    countElement = document.createElement("span");
+    countElement.className = "mpe-find-count";
+
+    findBar.appendChild(input);
+    findBar.appendChild(countElement);
+    findBar.appendChild(
+      createToggle("Aa", "Match case", () => (caseSensitive = !caseSensitive)),
+    );
+    findBar.appendChild(
+      createToggle(
+        ".*",
+        "Use regular expression",
+        () => (useRegex = !useRegex),
+      ),
+    );
+    findBar.appendChild(
+      createButton("\u2191", "Previous match (Shift+Enter)", () =>
+        selectMatch(currentIndex - 1),
+      ),
+    );
+    findBar.appendChild(
+      createButton("\u2193", "Next match (Enter)", () =>
+        selectMatch(currentIndex + 1),
+      ),
+    );
+    findBar.appendChild(createButton("\u00d7", "Close (Esc)", () => close()));
+    document.body.appendChild(findBar);
+  };
+
+  const open = () => {
+    if (!findBar) {
+      createFindBar();
+    }
+    findBar.style.display = "";
+    input.focus();
+    input.select();
+    search();
+  };
+
+  const close = () => {
+    if (!findBar || findBar.style.display === "none") {
+      return false;
+    }
+    clearMarks();
+    findBar.style.display = "none";
+    return true;
+  };
+
+  context.onHostMessage("mpeFind", () => {
+    open();
+    return true;
+  });
+  // esc closes the find bar instead of toggling the sidebar toc
+  context.onHostMessage("escPressed", () => close());
+  context.onHostMessage("updateHTML", () => {
+    if (findBar && findBar.style.display !== "none") {
+      marks = [];
+      // search once the `mume` webview script updated the preview
+      setTimeout(search, 0);
+    }
+  });
+  context.onHostMessage("mpePatchHTML", () => {
+    if (findBar && findBar.style.display !== "none") {
+      // the marks of the unchanged blocks are still there
+      setTimeout(search, 0);
+    }
+  });
+}
+
+/**
+ * Apply the block patches of `mpePatchHTML`, see `diffHTMLBlocks`.
+ *
+ * The `mume` webview script only handles full updates, so the diagrams and
+ * math of the new blocks are rendered here, and so are the clicks on their
+ * links and task list checkboxes. If the elements of the preview don't
+ * match the blocks that the patch is based on, a full update is requested.
+ * @param context
+ */
+export function initHTMLPatching(context: WebviewContext) {
+  // the top-level elements inserted by patches
+  const patchedElements = new WeakSet<Element>();
+
+  const shiftDataLines = (element: Element, lineDelta: number) => {
+    const elements: Element[] = [element].concat(
+      Array.prototype.slice.call(element.querySelectorAll("[data-line]")),
+    );
+    for (let i = 0; i < elements.length; i++) {
+      const line = parseInt(elements[i].getAttribute("data-line"), 10);
+      if (!isNaN(line)) {
+        elements[i].setAttribute("data-line", (line + lineDelta).toString());
+      }
+    }
+  };
+
+  const renderElements = (elements: Element[]) => {
+    const win = window as any;
+    if (win.mermaid) {
+      let graphs: Element[] = [];
+      for (let i = 0; i < elements.length; i++) {
+        graphs = graphs.concat(
+          elements[i].matches(".mermaid") ? [elements[i]] : [],
+          Array.prototype.slice.call(elements[i].querySelectorAll(".mermaid")),
+        );
+      }
+      if (graphs.length) {
+        try {
+          win.mermaid.init(undefined, graphs);
+        } catch (error) {
+          // the graph shows its source, as in full updates
+        }
+      }
+    }
+    if (win.MathJax && win.MathJax.Hub) {
+      for (let i = 0; i < elements.length; i++) {
+        win.MathJax.Hub.Queue(["Typeset", win.MathJax.Hub, elements[i]]);
+      }
+    }
+  };
+
+  context.onHostMessage("mpePatchHTML", (data) => {
+    const previewElement = context.getPreviewElement();
+    if (
+      !previewElement ||
+      previewElement.children.length !== data.previousBlockCount
+    ) {
+      context.postMessageToHost("mpeRequestFullUpdate", []);
+      return true;
+    }
+
+    const children: Element[] = Array.prototype.slice.call(
+      previewElement.children,
+    );
+    const end = data.start + data.deleteCount;
+    if (data.lineDelta) {
+      for (let i = end; i < children.length; i++) {
+        shiftDataLines(children[i], data.lineDelta);
+      }
+    }
+    for (let i = data.start; i < end; i++) {
+      previewElement.removeChild(children[i]);
+    }
+    const template = document.createElement("template");
+    template.innerHTML = data.blocks.join("\n");
+    const elements: Element[] = Array.prototype.slice.call(
+      template.content.children,
+    );
+    previewElement.insertBefore(template.content, children[end] || null);
+    if (previewElement.children.length !== data.blockCount) {
+      context.postMessageToHost("mpeRequestFullUpdate", []);
+      return true;
+    }
+
+    for (let i = 0; i < elements.length; i++) {
+      patchedElements.add(elements[i]);
+    }
+    renderElements(elements);
+    const sidebarTOC = document.querySelector(".md-sidebar-toc");
+    if (sidebarTOC) {
+      sidebarTOC.innerHTML = data.tocHTML;
+    }
+    return true;
+  });
+
+  // the elements of full updates have the handlers of the `mume` webview
+  // script.
+  document.addEventListener("click", (event) => {
+    const target = event.target as Element;
+    const previewElement = context.getPreviewElement();
+    if (!target || !target.closest || !previewElement) {
+      return;
+    }
+    let block = target;
+    while (block && block.parentElement !== previewElement) {
+      block = block.parentElement;
+    }
+    if (!block || !patchedElements.has(block)) {
+      return;
+    }
+
+    const checkbox = target.closest(".task-list-item-checkbox");
+    const lineElement = checkbox && checkbox.closest("[data-line]");
+    if (lineElement) {
+      context.postMessageToHost("clickTaskListCheckbox", [
+        lineElement.getAttribute("data-line"),
+      ]);
+      return;
+    }
+
+    const link = target.closest("a");
+    const href = link && link.getAttribute("href");
+    if (!href) {
+      return;
+    }
+    event.preventDefault();
+    if (href[0] === "#") {
+      const element = document.getElementById(
+        decodeURIComponent(href.slice(1)),
+      );
+      if (element) {
+        context.getScrollElement().scrollTop = context.getElementTop(element);
+      }
+    } else {
+      context.postMessageToHost("clickTagA", [encodeURIComponent(href)]);
+    }
+  });
+}
+
+/**
+ * Large-document mode, see large-document.ts.
+ * Shows the progress of the render, and reports the placeholders of the
+ * deferred blocks that scroll into view with `mpeRevealBlocks`.
+ * @param context
+ */
+export function initLargeDocument(context: WebviewContext) {
+  let progressElement: HTMLElement = null;
+  let hideTimeout = null;
+
+  const showProgress = (text: string, hideAfter: number) => {
+    if (!progressElement) {
+      progressElement = document.createElement("div");
+      progressElement.className = "mpe-render-progress";
+      document.body.appendChild(progressElement);
+    }
+    clearTimeout(hideTimeout);
+    progressElement.textContent = text;
+    progressElement.style.display = text ? "" : "none";
+    if (text && hideAfter) {
+      hideTimeout = setTimeout(() => showProgress("", 0), hideAfter);
+    }
+  };
+
+  context.onHostMessage("mpeRenderProgress", (data) => {
+    if (data.phase === "viewport") {
+      showProgress(
+        `Showing lines ${data.startLine + 1}-${data.endLine} of ` +
+          `${data.totalLineCount}, rendering the rest...`,
+        0,
+      );
+    } else if (data.deferredBlockCount) {
+      showProgress(
+        `${data.deferredBlockCount} diagrams and math blocks are rendered ` +
+          "when scrolled into view",
+        3000,
+      );
+    } else {
+      showProgress("", 0);
+    }
+    return true;
+  });
+
+  let observer: IntersectionObserver = null;
+  const observed = new WeakSet<Element>();
+  let revealedLines: number[] = [];
+
+  const observePlaceholders = () => {
+    if (!observer) {
+      const scrollElement = context.getScrollElement();
+      observer = new IntersectionObserver(
+        (entries) => {
+          entries.forEach((entry) => {
+            if (!entry.isIntersecting) {
+              return;
+            }
+            observer.unobserve(entry.target);
+            const line = parseInt(entry.target.getAttribute("data-line"), 10);
+            if (!isNaN(line)) {
+              revealedLines.push(line);
+            }
+          });
+          if (revealedLines.length) {
+            context.postMessageToHost("mpeRevealBlocks", [revealedLines]);
+            revealedLines = [];
+          }
+        },
+        {
+          root:
+            scrollElement === document.scrollingElement ? null : scrollElement,
+          // render the blocks a bit before they are visible
+          rootMargin: "50% 0px",
+        },
+      );
+    }
+    const placeholders = document.querySelectorAll(".mpe-deferred-block");
+    for (let i = 0; i < placeholders.length; i++) {
+      if (!observed.has(placeholders[i])) {
+        observed.add(placeholders[i]);
+        observer.observe(placeholders[i]);
+      }
+    }
+  };
+
+  let scheduled = false;
+  window.addEventListener("load", () => {
+    new MutationObserver(() => {
+      if (!scheduled) {
+        scheduled = true;
+        requestAnimationFrame(() => {
+          scheduled = false;
+          observePlaceholders();
+        });
+      }
+    }).observe(document.body, { childList: true, subtree: true });
+  });
+}
+
+/**
+ * Get the `<script>` tag that runs the webview features in the preview.
+ * @param options
+ */
+export function getWebviewScriptHTML(options: { sourceUri: string }) {
+  const scriptOptions: WebviewScriptOptions = {
+    sourceUri: options.sourceUri,
+    scrollDuration: SCROLL_DURATION,
+    protocolVersion: PROTOCOL_VERSION,
+  };
+  return `<style>${WEBVIEW_STYLE}</style>
+<script>
+(function() {
+  var context = (${createWebviewContext.toString()})(${JSON.stringify(
+    scriptOptions,
+  ).replace(/</g, "\\u003c")}, ${smoothScroll.toString()});
+  (${initScrollSync.toString()})(context);
+  (${initSourceSelection.toString()})(context);
+  (${initFindInPreview.toString()})(context);
+  (${initHTMLPatching.toString()})(context);
+  (${initLargeDocument.toString()})(context);
+})();
+</script>`;
+}
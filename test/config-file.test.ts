@@ -0,0 +1,79 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { readConfigFile } from "../src/config-file";
+
+describe("readConfigFile", () => {
+  let directoryPath: string;
+
+  /**
+   * Write `content` to the file `fileName` of the temporary directory.
+   * Returns the path of the file.
+   * @param fileName
+   * @param content
+   */
+  function writeFile(fileName: string, content: string) {
+    const filePath = path.join(directoryPath, fileName);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  before(() => {
+    directoryPath = fs.mkdtempSync(path.join(os.tmpdir(), "mpe-config-"));
+  });
+
+  after(() => {
+    fs.readdirSync(directoryPath).forEach((fileName) =>
+      fs.unlinkSync(path.join(directoryPath, fileName)),
+    );
+    fs.rmdirSync(directoryPath);
+  });
+
+  it("reads a json file of settings", async () => {
+    const filePath = writeFile(
+      "settings.json",
+      '{"previewTheme": "night.css", "printBackground": true}',
+    );
+    assert.deepStrictEqual(await readConfigFile(filePath), {
+      previewTheme: "night.css",
+      printBackground: true,
+    });
+  });
+
+  it("reads the package settings of atom's config.cson", async () => {
+    const filePath = writeFile(
+      "config.cson",
+      `"*":
+  core:
+    themes: ["one-dark-ui"]
+  "markdown-preview-enhanced":
+    previewTheme: "night.css"
+    enableZenMode: true
+`,
+    );
+    // `enableZenMode` is a setting of the package, but not of the engine
+    assert.deepStrictEqual(await readConfigFile(filePath), {
+      previewTheme: "night.css",
+    });
+  });
+
+  it("rejects unknown settings", async () => {
+    const filePath = writeFile("unknown.cson", "unknownSetting: 1\n");
+    await assert.rejects(readConfigFile(filePath), {
+      message: `Unknown setting \`unknownSetting\` in \`${filePath}\``,
+    });
+  });
+
+  it("rejects files that can't be parsed", async () => {
+    const filePath = writeFile("invalid.json", "{");
+    await assert.rejects(
+      readConfigFile(filePath),
+      /^Error: Failed to parse `.*invalid\.json`/,
+    );
+    const listPath = writeFile("list.json", "[]");
+    await assert.rejects(readConfigFile(listPath), {
+      message: `Failed to parse \`${listPath}\`: expected an object`,
+    });
+  });
+});
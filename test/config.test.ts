@@ -0,0 +1,169 @@
+import * as assert from "assert";
+import {
+  describeSettingProblem,
+  getChangedSettings,
+  getSettingsEffect,
+  MarkdownPreviewEnhancedConfig,
+} from "../src/config";
+
+/**
+ * Create a config from the given user settings, the other settings being
+ * unset.
+ * @param settings
+ */
+function createConfig(settings: { [key: string]: any }) {
+  return new MarkdownPreviewEnhancedConfig((name) => settings[name]);
+}
+
+describe("MarkdownPreviewEnhancedConfig", () => {
+  it("uses the defaults of the schema", () => {
+    const config = createConfig({});
+    assert.deepStrictEqual(config.fileExtension, [
+      ".md",
+      ".mmark",
+      ".markdown",
+    ]);
+    assert.strictEqual(config.previewTheme, "github-light.css");
+    assert.strictEqual(config.previewServerPort, 3680);
+    assert.strictEqual(config.sources.previewTheme, "default");
+    assert.deepStrictEqual(config.getProblems(), []);
+  });
+
+  it("parses the user settings", () => {
+    const config = createConfig({
+      breakOnSingleNewLine: false,
+      previewTheme: "night.css",
+      previewServerPort: "8080",
+      markdownFileIncludes: "README, *.mdx",
+      mathInlineDelimiters: '[["$", "$"]]',
+    });
+    assert.strictEqual(config.breakOnSingleNewLine, false);
+    assert.strictEqual(config.previewTheme, "night.css");
+    assert.strictEqual(config.previewServerPort, 8080);
+    assert.deepStrictEqual(config.markdownFileIncludes, ["README", "*.mdx"]);
+    assert.deepStrictEqual(config.mathInlineDelimiters, [["$", "$"]]);
+    assert.strictEqual(config.sources.previewTheme, "user");
+    assert.deepStrictEqual(config.getProblems(), []);
+  });
+
+  it("falls back to the defaults for invalid values", () => {
+    const config = createConfig({
+      breakOnSingleNewLine: "yes",
+      previewTheme: "unknown.css",
+      previewServerPort: 70000,
+      markdownEngineCacheSize: 0,
+      fileExtension: "md",
+      mathBlockDelimiters: "[[",
+    });
+    assert.strictEqual(config.breakOnSingleNewLine, true);
+    assert.strictEqual(config.previewTheme, "github-light.css");
+    assert.strictEqual(config.previewServerPort, 3680);
+    assert.strictEqual(config.markdownEngineCacheSize, 10);
+    assert.deepStrictEqual(config.fileExtension, [
+      ".md",
+      ".mmark",
+      ".markdown",
+    ]);
+    assert.strictEqual(config.sources.previewTheme, "default");
+    assert.deepStrictEqual(
+      config
+        .getProblems()
+        .map((problem) => problem.name)
+        .sort(),
+      [
+        "breakOnSingleNewLine",
+        "fileExtension",
+        "markdownEngineCacheSize",
+        "mathBlockDelimiters",
+        "previewServerPort",
+        "previewTheme",
+      ],
+    );
+    assert.deepStrictEqual(config.problems.previewServerPort, {
+      name: "previewServerPort",
+      source: "user",
+      rawValue: 70000,
+      value: 3680,
+      message: "expected a port number between 0 and 65535",
+    });
+  });
+
+  it("describes the problems", () => {
+    const config = createConfig({ breakOnSingleNewLine: "yes" });
+    assert.strictEqual(
+      describeSettingProblem(config.problems.breakOnSingleNewLine),
+      'Invalid value `"yes"` for `breakOnSingleNewLine` in your settings: ' +
+        "expected true or false. Using `true` instead.",
+    );
+  });
+
+  describe("withOverrides", () => {
+    it("overrides the settings without changing the config", () => {
+      const config = createConfig({ previewTheme: "night.css" });
+      const overridden = config.withOverrides({
+        previewTheme: "none.css",
+        printBackground: true,
+      });
+      assert.ok(overridden instanceof MarkdownPreviewEnhancedConfig);
+      assert.strictEqual(overridden.previewTheme, "none.css");
+      assert.strictEqual(overridden.printBackground, true);
+      assert.strictEqual(overridden.sources.previewTheme, "project");
+      assert.strictEqual(config.previewTheme, "night.css");
+      assert.strictEqual(config.sources.previewTheme, "user");
+    });
+
+    it("keeps the current value for invalid overrides", () => {
+      const config = createConfig({ previewTheme: "night.css" });
+      const overridden = config.withOverrides({
+        previewTheme: "unknown.css",
+        unknownSetting: true,
+      });
+      assert.strictEqual(overridden.previewTheme, "night.css");
+      assert.strictEqual(overridden.problems.previewTheme.source, "project");
+      assert.strictEqual(overridden.problems.previewTheme.value, "night.css");
+      assert.ok(!("unknownSetting" in overridden));
+      assert.deepStrictEqual(config.getProblems(), []);
+    });
+  });
+});
+
+describe("getSettingsEffect", () => {
+  it("returns the effect that does the most work", () => {
+    assert.strictEqual(getSettingsEffect([]), null);
+    assert.strictEqual(getSettingsEffect(["scrollSync"]), "host");
+    assert.strictEqual(
+      getSettingsEffect(["scrollSync", "printBackground"]),
+      "engine",
+    );
+    assert.strictEqual(
+      getSettingsEffect(["breakOnSingleNewLine", "printBackground"]),
+      "render",
+    );
+    assert.strictEqual(
+      getSettingsEffect(["previewTheme", "breakOnSingleNewLine"]),
+      "reload",
+    );
+  });
+
+  it("reloads for unknown settings", () => {
+    assert.strictEqual(getSettingsEffect(["unknownSetting"]), "reload");
+  });
+});
+
+describe("getChangedSettings", () => {
+  it("returns the settings whose values differ", () => {
+    const config = createConfig({ previewTheme: "night.css" });
+    assert.deepStrictEqual(getChangedSettings(config, config), []);
+    assert.deepStrictEqual(
+      getChangedSettings(
+        config,
+        config.withOverrides({
+          previewTheme: "night.css",
+          markdownFileIncludes: "README",
+          printBackground: true,
+        }),
+      ),
+      ["printBackground", "markdownFileIncludes"],
+    );
+  });
+});
@@ -0,0 +1,147 @@
+import * as assert from "assert";
+import { diffHTMLBlocks, splitHTMLBlocks } from "../src/html-patch";
+
+describe("splitHTMLBlocks", () => {
+  it("splits the top-level elements", () => {
+    assert.deepStrictEqual(
+      splitHTMLBlocks(
+        '<h1 data-line="0">Title</h1>\n<p data-line="2">a <em>b</em></p>\n' +
+          "<ul>\n<li><p>c</p></li>\n</ul>\n",
+      ),
+      [
+        '<h1 data-line="0">Title</h1>',
+        '<p data-line="2">a <em>b</em></p>',
+        "<ul>\n<li><p>c</p></li>\n</ul>",
+      ],
+    );
+  });
+
+  it("handles void and self-closing elements", () => {
+    assert.deepStrictEqual(
+      splitHTMLBlocks('<hr>\n<p>a<br>b</p><img src="x"/>'),
+      ["<hr>", "<p>a<br>b</p>", '<img src="x"/>'],
+    );
+  });
+
+  it("doesn't parse the content of raw text elements", () => {
+    assert.deepStrictEqual(
+      splitHTMLBlocks(
+        '<script>if (a < b) { x = "</p>"; }</script><style>p > a {}</style>',
+      ),
+      [
+        '<script>if (a < b) { x = "</p>"; }</script>',
+        "<style>p > a {}</style>",
+      ],
+    );
+  });
+
+  it("allows `>` in attribute values, and `<` and comments in text", () => {
+    assert.deepStrictEqual(
+      splitHTMLBlocks('<p title="a > b">1 < 2<!-- <div> --></p><p>c</p>'),
+      ['<p title="a > b">1 < 2<!-- <div> --></p>', "<p>c</p>"],
+    );
+  });
+
+  it("returns null for html that can't be split reliably", () => {
+    assert.strictEqual(splitHTMLBlocks("<p>a"), null);
+    assert.strictEqual(splitHTMLBlocks("<p>a</div>"), null);
+    assert.strictEqual(splitHTMLBlocks("text<p>a</p>"), null);
+    assert.strictEqual(splitHTMLBlocks("<p>a</p>text"), null);
+    assert.strictEqual(splitHTMLBlocks("<!-- a --><p>a</p>"), null);
+    assert.strictEqual(splitHTMLBlocks("<script>a"), null);
+  });
+
+  it("returns no blocks for empty html", () => {
+    assert.deepStrictEqual(splitHTMLBlocks(""), []);
+    assert.deepStrictEqual(splitHTMLBlocks(" \n"), []);
+  });
+});
+
+describe("diffHTMLBlocks", () => {
+  const previous = [
+    '<h1 data-line="0">A</h1>',
+    '<p data-line="2">b</p>',
+    '<p data-line="4">c</p>',
+    '<p data-line="6">d</p>',
+    '<p data-line="8">e</p>',
+  ];
+
+  it("replaces the changed blocks", () => {
+    const next = previous.slice();
+    next[2] = '<p data-line="4">changed</p>';
+    assert.deepStrictEqual(diffHTMLBlocks(previous, next, 0), {
+      start: 2,
+      deleteCount: 1,
+      blocks: ['<p data-line="4">changed</p>'],
+      lineDelta: 0,
+      previousBlockCount: 5,
+      blockCount: 5,
+    });
+  });
+
+  it("moves the lines of the blocks after inserted ones", () => {
+    const next = previous
+      .slice(0, 2)
+      .concat(['<p data-line="4">new</p>'])
+      .concat(
+        previous
+          .slice(2)
+          .map((block) =>
+            block.replace(
+              /data-line="(\d+)"/,
+              (whole, line) => `data-line="${parseInt(line, 10) + 2}"`,
+            ),
+          ),
+      );
+    assert.deepStrictEqual(diffHTMLBlocks(previous, next, 2), {
+      start: 2,
+      deleteCount: 0,
+      blocks: ['<p data-line="4">new</p>'],
+      lineDelta: 2,
+      previousBlockCount: 5,
+      blockCount: 6,
+    });
+  });
+
+  it("doesn't move any line when the last blocks changed", () => {
+    const next = previous.slice(0, 4);
+    assert.deepStrictEqual(diffHTMLBlocks(previous, next, -2), {
+      start: 4,
+      deleteCount: 1,
+      blocks: [],
+      lineDelta: 0,
+      previousBlockCount: 5,
+      blockCount: 4,
+    });
+  });
+
+  it("returns an empty patch for identical blocks", () => {
+    const patch = diffHTMLBlocks(previous, previous.slice(), 0);
+    assert.strictEqual(patch.deleteCount, 0);
+    assert.deepStrictEqual(patch.blocks, []);
+  });
+
+  it("returns null when most blocks changed", () => {
+    const next = previous.map((block) => block.replace("</", "!</"));
+    next[0] = previous[0];
+    assert.strictEqual(diffHTMLBlocks(previous, next, 0), null);
+  });
+
+  it("returns null when blocks rendered by scripts changed", () => {
+    const blocks = [
+      '<div class="code-chunk" data-id="a"></div>',
+      '<div class="wavedrom"></div>',
+      '<div class="zenuml"></div>',
+      '<div class="flow"></div>',
+      '<div class="sequence"></div>',
+      '<div class="vega"></div>',
+      '<div class="vega-lite"></div>',
+      "<script>run()</script>",
+    ];
+    blocks.forEach((block) => {
+      const next = previous.slice();
+      next[2] = block;
+      assert.strictEqual(diffHTMLBlocks(previous, next, 0), null, block);
+    });
+  });
+});
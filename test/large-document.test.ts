@@ -0,0 +1,115 @@
+import * as assert from "assert";
+import {
+  findHeavyBlocks,
+  HeavyBlock,
+  prepareLargeDocument,
+} from "../src/large-document";
+
+const MATH_BLOCK_DELIMITERS = [["$$", "$$"]];
+
+const LINES = [
+  "---",
+  "title: a",
+  "---",
+  "# One",
+  "",
+  "```mermaid",
+  "graph TD;",
+  "```",
+  "",
+  "$$",
+  "x^2",
+  "$$",
+  "",
+  "```js",
+  "# not a heading",
+  "```",
+  "$$ y $$",
+];
+
+describe("findHeavyBlocks", () => {
+  it("finds the diagrams and math blocks", () => {
+    assert.deepStrictEqual(findHeavyBlocks(LINES, MATH_BLOCK_DELIMITERS), [
+      {
+        kind: "diagram",
+        start: 5,
+        end: 7,
+        source: "```mermaid\ngraph TD;\n```",
+      },
+      { kind: "math", start: 9, end: 11, source: "$$\nx^2\n$$" },
+      { kind: "math", start: 16, end: 16, source: "$$ y $$" },
+    ]);
+  });
+
+  it("takes unclosed fences to the end of the document", () => {
+    assert.deepStrictEqual(
+      findHeavyBlocks(["```dot", "a -> b", "$$"], MATH_BLOCK_DELIMITERS),
+      [{ kind: "diagram", start: 0, end: 2, source: "```dot\na -> b\n$$" }],
+    );
+  });
+});
+
+describe("prepareLargeDocument", () => {
+  it("defers the heavy blocks that weren't revealed, without moving lines", () => {
+    const prepared = prepareLargeDocument(LINES, {
+      mathBlockDelimiters: MATH_BLOCK_DELIMITERS,
+      isRevealed: (block: HeavyBlock) => block.start === 16,
+    });
+    const lines = prepared.text.split("\n");
+    assert.strictEqual(lines.length, LINES.length);
+    assert.strictEqual(
+      lines[5],
+      '<div class="mpe-deferred-block" data-line="5" data-mpe-kind="diagram"></div>',
+    );
+    assert.deepStrictEqual(lines.slice(6, 8), ["", ""]);
+    assert.strictEqual(
+      lines[9],
+      '<div class="mpe-deferred-block" data-line="9" data-mpe-kind="math"></div>',
+    );
+    assert.strictEqual(lines[16], "$$ y $$");
+    assert.strictEqual(prepared.deferredBlockCount, 2);
+    assert.strictEqual(prepared.startRow, 0);
+    assert.strictEqual(prepared.endRow, LINES.length - 1);
+  });
+
+  it("only keeps the sections around the range", () => {
+    const lines: string[] = [];
+    for (let i = 0; i < 4; i++) {
+      lines.push(`# Section ${i}`);
+      for (let j = 0; j < 99; j++) {
+        lines.push(`line ${i}.${j}`);
+      }
+    }
+    const prepared = prepareLargeDocument(lines, {
+      mathBlockDelimiters: MATH_BLOCK_DELIMITERS,
+      isRevealed: () => true,
+      range: [160, 170],
+    });
+    // the margin reaches the sections 1 and 2
+    assert.strictEqual(prepared.startRow, 100);
+    assert.strictEqual(prepared.endRow, 299);
+    const output = prepared.text.split("\n");
+    assert.strictEqual(output.length, lines.length);
+    assert.strictEqual(output[99], "");
+    assert.strictEqual(output[100], "# Section 1");
+    assert.strictEqual(output[299], "line 2.98");
+    assert.strictEqual(output[300], "");
+  });
+
+  it("keeps the front matter and the blocks cut by the range", () => {
+    const lines = ["---", "title: a", "---"];
+    for (let i = 0; i < 200; i++) {
+      lines.push(i === 100 ? "```" : `line ${i}`);
+    }
+    lines.push("```");
+    const prepared = prepareLargeDocument(lines, {
+      mathBlockDelimiters: MATH_BLOCK_DELIMITERS,
+      isRevealed: () => true,
+      range: [180, 190],
+    });
+    assert.strictEqual(prepared.startRow, 103);
+    const output = prepared.text.split("\n");
+    assert.deepStrictEqual(output.slice(0, 3), ["---", "title: a", "---"]);
+    assert.strictEqual(output[3], "");
+  });
+});
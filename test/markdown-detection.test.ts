@@ -0,0 +1,153 @@
+import * as assert from "assert";
+import { TextEditor } from "atom";
+import * as path from "path";
+import { isMarkdownEditor, isMarkdownFile } from "../src/markdown-detection";
+
+const PROJECT_PATH = path.resolve("/project");
+
+/**
+ * Get the path of `relativePath` in the project.
+ * @param relativePath
+ */
+function inProject(relativePath: string) {
+  return path.join(PROJECT_PATH, relativePath);
+}
+
+function createConfig(
+  options: {
+    includes?: string[];
+    excludes?: string[];
+  } = {},
+) {
+  return {
+    fileExtension: [".md", ".markdown"],
+    markdownGrammarScopes: ["source.gfm"],
+    markdownFileIncludes: options.includes || [],
+    markdownFileExcludes: options.excludes || [],
+  };
+}
+
+function createEditor(filePath: string, scopeName: string) {
+  const editor = {
+    getPath: () => filePath,
+    getGrammar: () => ({ scopeName }),
+  };
+  return (editor as any) as TextEditor;
+}
+
+describe("markdown detection", () => {
+  let previousAtom: any;
+
+  before(() => {
+    previousAtom = (global as any).atom;
+    // only the project paths are needed
+    (global as any).atom = {
+      project: {
+        relativizePath: (filePath: string) => {
+          const relativePath = path.relative(PROJECT_PATH, filePath);
+          return relativePath.startsWith("..")
+            ? [null, filePath]
+            : [PROJECT_PATH, relativePath];
+        },
+      },
+    };
+  });
+
+  after(() => {
+    (global as any).atom = previousAtom;
+  });
+
+  describe("isMarkdownFile", () => {
+    it("recognizes the file extensions", () => {
+      const config = createConfig();
+      assert.ok(isMarkdownFile(inProject("a.md"), config));
+      assert.ok(isMarkdownFile(inProject("docs/a.markdown"), config));
+      assert.ok(!isMarkdownFile(inProject("a.txt"), config));
+      assert.ok(!isMarkdownFile(inProject("a.md.txt"), config));
+    });
+
+    it("never recognizes previews and missing paths", () => {
+      const config = createConfig({ includes: ["*"] });
+      assert.ok(!isMarkdownFile("mpe://editor/1", config));
+      assert.ok(!isMarkdownFile(undefined, config));
+    });
+
+    it("matches the file name with patterns without `/`", () => {
+      const config = createConfig({ includes: ["README", "*.{mdx,rmd}"] });
+      assert.ok(isMarkdownFile(inProject("README"), config));
+      assert.ok(isMarkdownFile(inProject("docs/README"), config));
+      assert.ok(isMarkdownFile(inProject("docs/a.mdx"), config));
+      assert.ok(isMarkdownFile(inProject("a.rmd"), config));
+      assert.ok(!isMarkdownFile(inProject("README.txt"), config));
+      assert.ok(!isMarkdownFile(inProject("a.mdx.bak"), config));
+    });
+
+    it("matches the project path with patterns with `/`", () => {
+      const config = createConfig({
+        includes: ["/notes/*.txt", "docs/**/*.txt"],
+      });
+      assert.ok(isMarkdownFile(inProject("notes/a.txt"), config));
+      assert.ok(!isMarkdownFile(inProject("notes/b/a.txt"), config));
+      assert.ok(isMarkdownFile(inProject("docs/a.txt"), config));
+      assert.ok(isMarkdownFile(inProject("docs/b/c/a.txt"), config));
+      assert.ok(!isMarkdownFile(inProject("a.txt"), config));
+    });
+
+    it("matches `?` with one character but `/`", () => {
+      const config = createConfig({ includes: ["notes/?.txt"] });
+      assert.ok(isMarkdownFile(inProject("notes/a.txt"), config));
+      assert.ok(!isMarkdownFile(inProject("notes/ab.txt"), config));
+    });
+
+    it("escapes the other characters of patterns", () => {
+      const config = createConfig({ includes: ["a+(b).txt"] });
+      assert.ok(isMarkdownFile(inProject("a+(b).txt"), config));
+      assert.ok(!isMarkdownFile(inProject("aa(b).txt"), config));
+    });
+
+    it("excludes the files that match the excludes", () => {
+      const config = createConfig({
+        includes: ["README"],
+        excludes: ["node_modules/**", "CHANGELOG.md", "README"],
+      });
+      assert.ok(!isMarkdownFile(inProject("node_modules/a/a.md"), config));
+      assert.ok(!isMarkdownFile(inProject("docs/CHANGELOG.md"), config));
+      assert.ok(!isMarkdownFile(inProject("README"), config));
+      assert.ok(isMarkdownFile(inProject("a.md"), config));
+    });
+  });
+
+  describe("isMarkdownEditor", () => {
+    it("recognizes the markdown grammars and files", () => {
+      const config = createConfig();
+      assert.ok(
+        isMarkdownEditor(createEditor(undefined, "source.gfm"), config),
+      );
+      assert.ok(
+        isMarkdownEditor(
+          createEditor(inProject("a.txt"), "source.gfm"),
+          config,
+        ),
+      );
+      assert.ok(
+        isMarkdownEditor(createEditor(inProject("a.md"), "text.plain"), config),
+      );
+      assert.ok(
+        !isMarkdownEditor(
+          createEditor(inProject("a.txt"), "text.plain"),
+          config,
+        ),
+      );
+    });
+
+    it("never recognizes excluded files", () => {
+      const config = createConfig({ excludes: ["*.txt"] });
+      assert.ok(
+        !isMarkdownEditor(
+          createEditor(inProject("a.txt"), "source.gfm"),
+          config,
+        ),
+      );
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import * as assert from "assert";
+import { RenderRequest, RenderScheduler } from "../src/render-scheduler";
+
+/**
+ * A render whose result is given by the test.
+ */
+interface ControlledRender {
+  request: RenderRequest;
+  resolve: (result: string) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Create a scheduler without delay whose renders are resolved by the test.
+ * @param maxInFlight
+ */
+function createScheduler(maxInFlight: number = 1) {
+  const renders: ControlledRender[] = [];
+  const applied: string[] = [];
+  const scheduler = new RenderScheduler<string>({
+    render: (request) =>
+      new Promise((resolve, reject) =>
+        renders.push({ request, resolve, reject }),
+      ),
+    apply: (result) => applied.push(result),
+    delay: 0,
+    maxInFlight,
+  });
+  return { scheduler, renders, applied };
+}
+
+function wait(milliseconds: number = 5) {
+  return new Promise((resolve) => setTimeout(resolve, milliseconds));
+}
+
+describe("RenderScheduler", () => {
+  it("merges the requests made before the render starts", async () => {
+    const { scheduler, renders, applied } = createScheduler();
+    const first = scheduler.schedule();
+    const second = scheduler.schedule(true);
+    await wait();
+    assert.strictEqual(renders.length, 1);
+    assert.deepStrictEqual(renders[0].request, {
+      generation: 1,
+      triggeredBySave: true,
+    });
+    renders[0].resolve("a");
+    assert.deepStrictEqual(await Promise.all([first, second]), [true, true]);
+    assert.deepStrictEqual(applied, ["a"]);
+  });
+
+  it("waits for the running render, then merges the new requests", async () => {
+    const { scheduler, renders, applied } = createScheduler();
+    const first = scheduler.schedule();
+    await wait();
+    const second = scheduler.schedule();
+    const third = scheduler.schedule();
+    await wait();
+    assert.strictEqual(renders.length, 1);
+    assert.ok(scheduler.isSuperseded(renders[0].request));
+
+    renders[0].resolve("a");
+    assert.strictEqual(await first, true);
+    await wait();
+    assert.strictEqual(renders.length, 2);
+    assert.strictEqual(renders[1].request.generation, 2);
+    assert.ok(!scheduler.isSuperseded(renders[1].request));
+    renders[1].resolve("b");
+    assert.deepStrictEqual(await Promise.all([second, third]), [true, true]);
+    assert.deepStrictEqual(applied, ["a", "b"]);
+  });
+
+  it("drops the result of a render that finished after a newer one", async () => {
+    const { scheduler, renders, applied } = createScheduler(2);
+    const first = scheduler.schedule();
+    await wait();
+    const second = scheduler.schedule();
+    await wait();
+    assert.strictEqual(renders.length, 2);
+
+    renders[1].resolve("b");
+    assert.strictEqual(await second, true);
+    renders[0].resolve("a");
+    assert.strictEqual(await first, false);
+    assert.deepStrictEqual(applied, ["b"]);
+  });
+
+  it("rejects the requests of a failed render", async () => {
+    const { scheduler, renders, applied } = createScheduler();
+    const first = scheduler.schedule();
+    await wait();
+    renders[0].reject(new Error("failed"));
+    await assert.rejects(first, { message: "failed" });
+    assert.deepStrictEqual(applied, []);
+
+    // the next renders still run
+    const second = scheduler.schedule();
+    await wait();
+    renders[1].resolve("b");
+    assert.strictEqual(await second, true);
+  });
+
+  it("cancels the scheduled render and the running ones", async () => {
+    const { scheduler, renders, applied } = createScheduler();
+    const first = scheduler.schedule();
+    await wait();
+    const second = scheduler.schedule();
+    scheduler.cancel();
+    assert.strictEqual(await second, false);
+    assert.ok(scheduler.isSuperseded(renders[0].request));
+
+    renders[0].resolve("a");
+    assert.strictEqual(await first, false);
+    await wait();
+    assert.strictEqual(renders.length, 1);
+    assert.deepStrictEqual(applied, []);
+  });
+});